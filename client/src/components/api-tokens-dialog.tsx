@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { KeyRound, Copy, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApiTokens, type ApiTokenSummary, type CreatedApiToken } from '@/hooks/useApiTokens';
+import type { ApiTokenScope } from '@shared/schema';
+
+interface ApiTokensDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const scopeOptions: { scope: ApiTokenScope; label: string; description: string }[] = [
+  { scope: 'read', label: 'Read', description: 'List, open and export projects' },
+  { scope: 'write', label: 'Write', description: 'Create, change and delete projects' },
+  { scope: 'generate', label: 'Generate', description: 'Run AI generation' }
+];
+
+// Select values are strings; 'never' leaves the expiry out
+const expiryOptions = [
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' }
+];
+
+const formatDate = (value: string | null, fallback: string) =>
+  value ? new Date(value).toLocaleDateString() : fallback;
+
+// Settings for personal API tokens: create one for a script or CI job, copy it
+// once, and revoke it when it is no longer needed
+export default function ApiTokensDialog({ open, onOpenChange }: ApiTokensDialogProps) {
+  const { tokens, isLoading, createToken, revokeToken, isCreating, isRevoking } = useApiTokens(open);
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read']);
+  const [expiry, setExpiry] = useState('30');
+  // Shown until the dialog closes; the server never returns the token again
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const [pendingRevoke, setPendingRevoke] = useState<ApiTokenSummary | null>(null);
+
+  const showError = (title: string, error: unknown) =>
+    toast({ title, description: (error as Error).message, variant: 'destructive' });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(prev => (checked ? [...prev, scope] : prev.filter(s => s !== scope)));
+  };
+
+  const handleCreate = async () => {
+    try {
+      const token = await createToken({
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiry === 'never' ? undefined : Number(expiry)
+      });
+      setCreated(token);
+      setName('');
+    } catch (error) {
+      showError('Could not create token', error);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!created) return;
+    try {
+      await navigator.clipboard.writeText(created.token);
+      toast({ title: 'Token copied' });
+    } catch (error) {
+      showError('Could not copy token', error);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!pendingRevoke) return;
+    try {
+      await revokeToken(pendingRevoke.id);
+      if (created?.id === pendingRevoke.id) setCreated(null);
+    } catch (error) {
+      showError('Could not revoke token', error);
+    } finally {
+      setPendingRevoke(null);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setCreated(null);
+    onOpenChange(next);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="w-4 h-4" />
+              API tokens
+            </DialogTitle>
+            <DialogDescription>
+              Send a token as <code>Authorization: Bearer &lt;token&gt;</code> to use the projects API and
+              <code> /api/ask</code> from scripts.
+            </DialogDescription>
+          </DialogHeader>
+
+          {created && (
+            <div className="rounded-md border border-green-600/40 bg-green-600/10 p-3 space-y-2">
+              <p className="text-sm">Copy <strong>{created.name}</strong> now; it will not be shown again.</p>
+              <div className="flex gap-2">
+                <Input readOnly value={created.token} className="font-mono text-xs" onFocus={e => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={handleCopy} title="Copy token">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-[1fr_auto] gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="api-token-name">Name</Label>
+                <Input
+                  id="api-token-name"
+                  placeholder="e.g. CI export job"
+                  value={name}
+                  maxLength={100}
+                  onChange={e => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expiryOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {scopeOptions.map(option => (
+                <label key={option.scope} className="flex items-start gap-2 text-sm" title={option.description}>
+                  <Checkbox
+                    checked={scopes.includes(option.scope)}
+                    onCheckedChange={checked => toggleScope(option.scope, checked === true)}
+                  />
+                  <span>
+                    {option.label}
+                    <span className="block text-xs text-muted-foreground">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <Button onClick={handleCreate} disabled={isCreating || !name.trim() || scopes.length === 0}>
+              {isCreating ? 'Creating...' : 'Create token'}
+            </Button>
+          </div>
+
+          <div className="border-t pt-3 space-y-2 max-h-64 overflow-y-auto">
+            {isLoading && <p className="text-sm text-muted-foreground">Loading tokens...</p>}
+            {!isLoading && tokens.length === 0 && (
+              <p className="text-sm text-muted-foreground">No API tokens yet.</p>
+            )}
+            {tokens.map(token => (
+              <div key={token.id} className="flex items-center justify-between gap-3 rounded-md border p-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{token.name}</span>
+                    <code className="text-xs text-muted-foreground">{token.tokenPrefix}…</code>
+                    {token.scopes.map(scope => (
+                      <Badge key={scope} variant="secondary" className="text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Created {formatDate(token.createdAt, 'unknown')} · Expires {formatDate(token.expiresAt, 'never')} ·
+                    Last used {formatDate(token.lastUsedAt, 'never')}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setPendingRevoke(token)}
+                  disabled={isRevoking}
+                  title="Revoke token"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingRevoke !== null} onOpenChange={open => !open && setPendingRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke {pendingRevoke?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Scripts using this token will stop working immediately.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevoke}>Revoke</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
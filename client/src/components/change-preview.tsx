@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Check, ChevronDown, ChevronRight, FileText, X, AlertCircle } from 'lucide-react';
+import { diffLines, countChanges, type DiffLine } from '@shared/diff';
+import type { FileAction } from '@shared/generation';
+
+export interface PendingFileChange {
+  path: string;
+  action: FileAction;
+  language: string;
+  before: string;
+  after: string;
+  failedEdits: number;
+}
+
+interface ChangePreviewProps {
+  changes: PendingFileChange[];
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const CONTEXT_LINES = 3;
+
+// Collapses unchanged stretches so only the edited regions are shown
+const foldContext = (lines: DiffLine[]): (DiffLine | { type: 'fold'; count: number })[] => {
+  const keep = lines.map((line, index) =>
+    line.type !== 'context' ||
+    lines.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(l => l.type !== 'context')
+  );
+
+  const result: (DiffLine | { type: 'fold'; count: number })[] = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      result.push(line);
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last?.type === 'fold') {
+      last.count++;
+    } else {
+      result.push({ type: 'fold', count: 1 });
+    }
+  });
+  return result;
+};
+
+const actionStyles: Record<FileAction, string> = {
+  create: 'bg-green-500/10 text-green-400 border-green-500/30',
+  update: 'bg-blue-500/10 text-blue-400 border-blue-500/30',
+  edit: 'bg-blue-500/10 text-blue-400 border-blue-500/30',
+  delete: 'bg-red-500/10 text-red-400 border-red-500/30'
+};
+
+export function FileChange({ change }: { change: PendingFileChange }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const lines = useMemo(() => diffLines(change.before, change.after), [change.before, change.after]);
+  const { added, removed } = countChanges(lines);
+
+  return (
+    <div className="border border-gray-700 rounded-md overflow-hidden">
+      <button
+        className="w-full flex items-center justify-between px-3 py-2 text-sm bg-gray-800 hover:bg-gray-700/70"
+        onClick={() => setIsOpen(open => !open)}
+      >
+        <div className="flex items-center space-x-2 min-w-0">
+          {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <span className="font-mono truncate">{change.path}</span>
+          <Badge variant="outline" className={`text-xs ${actionStyles[change.action]}`}>
+            {change.action}
+          </Badge>
+        </div>
+        <div className="flex items-center space-x-2 text-xs font-mono">
+          {change.failedEdits > 0 && (
+            <span className="flex items-center text-yellow-400">
+              <AlertCircle className="w-3 h-3 mr-1" />
+              {change.failedEdits} hunk{change.failedEdits === 1 ? '' : 's'} not applied
+            </span>
+          )}
+          <span className="text-green-400">+{added}</span>
+          <span className="text-red-400">-{removed}</span>
+        </div>
+      </button>
+
+      {isOpen && (
+        <pre className="max-h-64 overflow-auto text-xs font-mono bg-gray-900 py-1">
+          {foldContext(lines).map((line, index) =>
+            line.type === 'fold' ? (
+              <div key={index} className="px-3 text-gray-500 bg-gray-800/50">
+                ⋯ {line.count} unchanged line{line.count === 1 ? '' : 's'}
+              </div>
+            ) : (
+              <div
+                key={index}
+                className={`px-3 whitespace-pre ${
+                  line.type === 'add' ? 'bg-green-500/10 text-green-300' :
+                  line.type === 'remove' ? 'bg-red-500/10 text-red-300' :
+                  'text-gray-400'
+                }`}
+              >
+                {line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  '}{line.text}
+              </div>
+            )
+          )}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+// Per-turn review of the files an AI response wants to change
+export default function ChangePreview({ changes, onAccept, onReject }: ChangePreviewProps) {
+  return (
+    <div className="bg-gray-800/90 rounded-lg p-4 border border-blue-500/40 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">
+          Review {changes.length} file change{changes.length === 1 ? '' : 's'}
+        </span>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onReject}
+            className="border-gray-600 text-gray-300 hover:bg-gray-700"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Discard
+          </Button>
+          <Button size="sm" onClick={onAccept} className="bg-blue-600 hover:bg-blue-700 text-white">
+            <Check className="w-4 h-4 mr-1" />
+            Apply
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {changes.map(change => (
+          <FileChange key={change.path} change={change} />
+        ))}
+      </div>
+    </div>
+  );
+}
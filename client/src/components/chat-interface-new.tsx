@@ -6,13 +6,27 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Progress } from '@/components/ui/progress';
-import { Loader2, Send, Code, FileText, Zap, AlertCircle, CheckCircle, Info, X, Save, MessageSquare } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Send, Code, FileText, Zap, AlertCircle, CheckCircle, Info, X, Save, MessageSquare, Wand2, KeyRound, Share2 } from 'lucide-react';
 import TypingAnimation from '@/components/ui/typing-animation';
 import LoadingAnimation from '@/components/ui/loading-animation';
 import CodeStream from '@/components/ui/code-stream';
-import { Project } from '@/lib/file-system';
+import ChangePreview, { type PendingFileChange } from '@/components/change-preview';
+import ApiTokensDialog from '@/components/api-tokens-dialog';
+import ShareDialog from '@/components/share-dialog';
+import { Project, FileContent } from '@/lib/file-system';
+import { readGenerationEvents } from '@/lib/generation-stream';
+import type { PreviewRuntimeError } from '@/lib/preview-console';
+import {
+  applyFileEdits,
+  generationManifestSchema,
+  type GenerationEvent,
+  type GenerationManifest,
+  type RuntimeError
+} from '@shared/generation';
 import { useProjects } from '@/hooks/useProjects';
 import { useAuth } from '@/hooks/useAuth';
+import { useProjectVersions } from '@/hooks/useProjectVersions';
 import { Eye } from 'lucide-react';
 
 // Enhanced Types and Interfaces
@@ -35,11 +49,32 @@ interface ChatMessage {
 
 interface ChatInterfaceProps {
   project: Project;
+  activeFile?: string | null;
   onConsoleLog: (message: string, type?: 'success' | 'error' | 'info') => void;
   onAppUpdate?: (htmlContent: string) => void;
   onFileGenerated?: (fileName: string, content: string, language: string) => void;
+  onFileUpdate?: (fileName: string, content: string) => void;
+  onFileDeleted?: (fileName: string) => void;
+  // Latest uncaught preview error, and one the user explicitly asked to fix
+  runtimeError?: PreviewRuntimeError | null;
+  fixRequest?: PreviewRuntimeError | null;
 }
 
+// Fix-with-AI loop: after a fix is applied, an error within FIX_SETTLE_MS
+// counts as another failure; errors in the first FIX_GRACE_MS still come from
+// the page that was running before the preview reloaded
+interface FixSession {
+  attempts: number;
+  appliedAt: number | null;
+  settleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const FIX_SETTLE_MS = 8000;
+const FIX_GRACE_MS = 1500;
+const DEFAULT_MAX_FIX_ATTEMPTS = 3;
+const AUTO_FIX_STORAGE_KEY = 'autoFixPreviewErrors';
+const MAX_FIX_ATTEMPTS_STORAGE_KEY = 'maxFixAttempts';
+
 interface GenerationStage {
   id: string;
   name: string;
@@ -53,7 +88,7 @@ interface LiveCodingState {
   content: string;
   isActive: boolean;
   language: string;
-  progress: number;
+  files: string[];
   complexity: string;
   patterns: string[];
 }
@@ -147,7 +182,8 @@ const useRetry = (maxRetries: number = 3) => {
         setRetryCount(i);
         return await fn();
       } catch (error) {
-        if (i === maxRetries) throw error;
+        // A cancelled request must not be replayed
+        if (i === maxRetries || (error instanceof DOMException && error.name === 'AbortError')) throw error;
         await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, i)));
       }
     }
@@ -156,40 +192,8 @@ const useRetry = (maxRetries: number = 3) => {
   return { retry, retryCount };
 };
 
-const useTypingEffect = (text: string, speed: number = 50) => {
-  const [displayText, setDisplayText] = useState('');
-  const [isTyping, setIsTyping] = useState(false);
-
-  useEffect(() => {
-    if (!text) return;
-
-    setIsTyping(true);
-    setDisplayText('');
-
-    let currentIndex = 0;
-    const timer = setInterval(() => {
-      if (currentIndex < text.length) {
-        setDisplayText(prev => prev + text[currentIndex]);
-        currentIndex++;
-      } else {
-        setIsTyping(false);
-        clearInterval(timer);
-      }
-    }, speed);
-
-    return () => clearInterval(timer);
-  }, [text, speed]);
-
-  return { displayText, isTyping };
-};
-
 // Memoized Components
-const MessageBubble = memo(({ message, onDismiss }: { message: ChatMessage; onDismiss?: () => void }) => {
-  const { displayText, isTyping } = useTypingEffect(
-    message.sender === 'ai' ? message.content : '', 
-    message.type === 'code' ? 10 : 30
-  );
-
+const MessageBubble = memo(({ message, isStreaming, onDismiss }: { message: ChatMessage; isStreaming?: boolean; onDismiss?: () => void }) => {
   return (
     <div className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-2 duration-300`}>
       <div className={`max-w-[85%] relative ${
@@ -227,8 +231,8 @@ const MessageBubble = memo(({ message, onDismiss }: { message: ChatMessage; onDi
 
         {/* Content */}
         <div className="whitespace-pre-wrap leading-relaxed">
-          {message.sender === 'ai' ? (displayText || message.content) : message.content}
-          {isTyping && <span className="animate-pulse">|</span>}
+          {message.content}
+          {isStreaming && <span className="animate-pulse">|</span>}
         </div>
 
         {/* Metadata */}
@@ -261,10 +265,12 @@ const MessageBubble = memo(({ message, onDismiss }: { message: ChatMessage; onDi
 const ProgressIndicator = memo(({ stage, progress, isVisible }: { stage: string; progress: number; isVisible: boolean }) => {
   if (!isVisible) return null;
 
+  const stageName = GENERATION_STAGES.find(s => s.id === stage)?.name ?? stage;
+
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
-        <span className="text-sm font-medium text-white">{stage}</span>
+        <span className="text-sm font-medium text-white">{stageName}</span>
         <span className="text-xs text-gray-400">{progress}%</span>
       </div>
       <Progress value={progress} className="h-2 bg-gray-700">
@@ -303,30 +309,38 @@ const getLanguageFromFileName = (fileName: string): string => {
   }
 };
 
-const generateFileName = (codeBlock: string, index: number): string => {
-    // Try to extract filename from comment in code
-    const lines = codeBlock.split('\n');
-    for (const line of lines.slice(0, 5)) {
-      const fileMatch = line.match(/(?:\/\/|\/\*|\#|<!--)\s*(?:filename:|file:)?\s*([a-zA-Z0-9._-]+\.[a-zA-Z0-9]+)/i);
-      if (fileMatch) {
-        return fileMatch[1];
-      }
+// Turns a generation manifest into reviewable changes against the current files
+const toPendingChanges = (manifest: GenerationManifest | null, existingFiles: Record<string, FileContent>): PendingFileChange[] =>
+  (manifest?.files ?? []).map(file => {
+    const before = existingFiles[file.path]?.content ?? '';
+    if (file.action === 'delete') {
+      return { path: file.path, action: file.action, language: file.language, before, after: '', failedEdits: 0 };
     }
+    if (file.action === 'edit') {
+      const result = applyFileEdits(before, file.edits ?? []);
+      return { path: file.path, action: file.action, language: file.language, before, after: result.content, failedEdits: result.failed.length };
+    }
+    return { path: file.path, action: file.action, language: file.language, before, after: file.content, failedEdits: 0 };
+  });
 
-    // Detect file type from code content
-    if (codeBlock.includes('<!DOCTYPE html') || codeBlock.includes('<html')) return `index.html`;
-    if (codeBlock.includes('package.json') || codeBlock.includes('"name"') && codeBlock.includes('"version"')) return 'package.json';
-    if (codeBlock.includes('body {') || codeBlock.includes('@media') || codeBlock.includes('font-family:')) return 'style.css';
-    if (codeBlock.includes('const express') || codeBlock.includes('app.listen')) return 'server.js';
-    if (codeBlock.includes('class ') && codeBlock.includes('constructor')) return 'app.js';
-    if (codeBlock.includes('function ') || codeBlock.includes('const ') || codeBlock.includes('let ')) return `script${index + 1}.js`;
-
-    return `file${index + 1}.txt`;
-  };
-
-export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFileGenerated }: ChatInterfaceProps) {
+const firstLine = (text: string) => text.split('\n')[0].slice(0, 200);
+
+export default function ChatInterface({
+  project,
+  activeFile,
+  onConsoleLog,
+  onAppUpdate,
+  onFileGenerated,
+  onFileUpdate,
+  onFileDeleted,
+  runtimeError,
+  fixRequest
+}: ChatInterfaceProps) {
   const { createProject } = useProjects();
   const { user } = useAuth();
+  const [showApiTokens, setShowApiTokens] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const { saveVersion } = useProjectVersions(project.id);
   const { retry, retryCount } = useRetry(3);
 
   // State Management
@@ -348,7 +362,7 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
     content: '',
     isActive: false,
     language: '',
-    progress: 0,
+    files: [],
     complexity: '',
     patterns: []
   });
@@ -358,11 +372,23 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
   const [previewUrl, setPreviewUrl] = useState<string>('');
   const [errorAlerts, setErrorAlerts] = useState<string[]>([]);
   const [cancelToken, setCancelToken] = useState<CancelToken | null>(null);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [pendingChanges, setPendingChanges] = useState<{ prompt: string; changes: PendingFileChange[] } | null>(null);
+  const [autoFix, setAutoFix] = useState(() => localStorage.getItem(AUTO_FIX_STORAGE_KEY) === 'true');
+  const [maxFixAttempts, setMaxFixAttempts] = useState(
+    () => Number(localStorage.getItem(MAX_FIX_ATTEMPTS_STORAGE_KEY)) || DEFAULT_MAX_FIX_ATTEMPTS
+  );
+  const [isFixing, setIsFixing] = useState(false);
+  const [dismissedErrorId, setDismissedErrorId] = useState<number | null>(null);
 
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const fixSessionRef = useRef<FixSession | null>(null);
+  // Latest project state for requests started from stale callbacks
+  const contextRef = useRef({ project, activeFile, messages });
+  contextRef.current = { project, activeFile, messages };
 
   // Effects
   useEffect(() => {
@@ -394,6 +420,11 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
     };
   }, []);
 
+  useEffect(() => {
+    localStorage.setItem(AUTO_FIX_STORAGE_KEY, String(autoFix));
+    localStorage.setItem(MAX_FIX_ATTEMPTS_STORAGE_KEY, String(maxFixAttempts));
+  }, [autoFix, maxFixAttempts]);
+
   // Progress calculation
   const currentProgress = useProgress(GENERATION_STAGES, currentStage);
 
@@ -433,6 +464,7 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
   const handleAIResponse = useCallback(async (userInput: string) => {
     setIsLoading(true);
     setErrorAlerts([]);
+    setPendingChanges(null);
 
     // Create abort controller for this request
     abortControllerRef.current = new AbortController();
@@ -457,6 +489,7 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
 
       onConsoleLog('✅ Processing completed successfully!', 'success');
     } catch (error) {
+      if (token.cancelled) return;
       console.error('AI Response Error:', error);
 
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -478,6 +511,7 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
       setIsLoading(false);
       setCurrentStage('');
       setLiveCoding(prev => ({ ...prev, isActive: false }));
+      setStreamingMessageId(null);
       setCancelToken(null);
       abortControllerRef.current = null;
     }
@@ -507,128 +541,345 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
     }
   }, [handleSubmit]);
 
-  const handleFileGeneration = useCallback(async (userInput: string, token: CancelToken) => {
-    setCurrentStage('Generating code...');
+  const applyChanges = useCallback((changes: PendingFileChange[], prompt: string) => {
+    const { project } = contextRef.current;
+    const existingFiles = project.files;
+    const nextFiles = { ...existingFiles };
+
+    for (const change of changes) {
+      if (change.action === 'delete') {
+        delete nextFiles[change.path];
+        onFileDeleted?.(change.path);
+        onConsoleLog(`🗑️ Deleted ${change.path}`, 'info');
+        continue;
+      }
 
-    onConsoleLog('🤖 Generating code locally...', 'info');
+      nextFiles[change.path] = { content: change.after, type: change.language };
+      if (existingFiles[change.path] && onFileUpdate) {
+        onFileUpdate(change.path, change.after);
+      } else {
+        onFileGenerated?.(change.path, change.after, change.language);
+      }
+      if (change.failedEdits > 0) {
+        onConsoleLog(`⚠️ ${change.failedEdits} edit(s) to ${change.path} did not match the current file`, 'error');
+      }
+    }
+
+    // Every applied AI turn becomes a version, so a bad one can be restored away
+    if (project.id) {
+      saveVersion({ source: 'ai', label: prompt.slice(0, 200), files: nextFiles })
+        .then(version => onConsoleLog(`📸 Saved as version ${version.version}`, 'info'))
+        .catch(error => onConsoleLog(`⚠️ Could not save a version: ${error.message}`, 'error'));
+    }
+  }, [onFileDeleted, onFileUpdate, onFileGenerated, onConsoleLog, saveVersion]);
+
+  const acceptPendingChanges = useCallback(() => {
+    if (!pendingChanges) return;
+    applyChanges(pendingChanges.changes, pendingChanges.prompt);
+    setPendingChanges(null);
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      sender: 'ai',
+      content: `Applied changes to ${pendingChanges.changes.map(change => change.path).join(', ')}`,
+      timestamp: new Date(),
+      type: 'system'
+    }]);
+  }, [pendingChanges, applyChanges]);
+
+  const rejectPendingChanges = useCallback(() => {
+    setPendingChanges(null);
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      sender: 'ai',
+      content: 'Discarded the proposed changes.',
+      timestamp: new Date(),
+      type: 'system'
+    }]);
+  }, []);
+
+  // Streams a response from the server, growing the AI message in place as
+  // tokens arrive. Other events are handed to onEvent as they come in.
+  const streamResponse = useCallback(async (
+    userInput: string,
+    onEvent?: (event: GenerationEvent) => void,
+    extra?: { runtimeError?: RuntimeError }
+  ) => {
+    const { project, activeFile, messages } = contextRef.current;
+
+    // Prior turns, minus greetings/errors and the prompt being sent now
+    const history = messages
+      .filter(msg => msg.type !== 'system' && msg.type !== 'error' && msg.content.trim())
+      .map(msg => ({ role: msg.sender === 'user' ? 'user' as const : 'assistant' as const, content: msg.content }));
+    if (history[history.length - 1]?.role === 'user' && history[history.length - 1].content === userInput) {
+      history.pop();
+    }
 
-    const response = await fetch('/api/claude-proxy', {
+    const response = await fetch('/api/claude-proxy/stream', {
       method: 'POST',
       headers: { 
         'Content-Type': 'application/json',
-        'Accept': 'application/json'
+        'Accept': 'text/event-stream'
       },
-      body: JSON.stringify({ prompt: userInput })
+      body: JSON.stringify({
+        prompt: userInput,
+        files: project.files,
+        activeFile,
+        history,
+        ...extra
+      }),
+      signal: abortControllerRef.current?.signal
     });
 
-    if (!response.ok) {
+    if (!response.ok || !response.body) {
       throw new Error(`Response Error: ${response.status}`);
     }
 
-    const data = await response.json();
-    onConsoleLog('✅ Response received successfully', 'success');
-    const aiResponse = data.response || "I'd be happy to help! Could you provide more specific details?";
+    const messageId = Date.now().toString();
+    let content = '';
+    let manifest: GenerationManifest | null = null;
 
-    // Process code blocks and create files
-    const codeBlocks = aiResponse.match(/```(\w+)?\n([\s\S]*?)```/g) || [];
-    const filesCreated: string[] = [];
+    setMessages(prev => [...prev, {
+      id: messageId,
+      sender: 'ai',
+      content: '',
+      timestamp: new Date(),
+      type: 'normal'
+    }]);
+    setStreamingMessageId(messageId);
+
+    for await (const event of readGenerationEvents(response.body)) {
+      if (event.type === 'token') {
+        content += event.text;
+        setMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, content } : msg));
+      } else if (event.type === 'stage') {
+        setCurrentStage(event.stage);
+      } else if (event.type === 'done') {
+        const parsed = generationManifestSchema.safeParse(event.manifest);
+        if (!parsed.success) {
+          throw new Error(`Invalid generation manifest: ${parsed.error.issues[0]?.message}`);
+        }
+        manifest = parsed.data;
+      } else if (event.type === 'error') {
+        throw new Error(event.message);
+      }
+      onEvent?.(event);
+    }
 
-    if (codeBlocks.length > 0) {
-      for (let i = 0; i < codeBlocks.length; i++) {
-        if (token.cancelled) break;
+    setStreamingMessageId(null);
+    return { messageId, content, manifest: manifest as GenerationManifest | null };
+  }, []);
 
-        const block = codeBlocks[i];
-        const languageMatch = block.match(/```(\w+)/);
-        const language = languageMatch ? languageMatch[1] : 'text';
-        const code = block.replace(/```\w*\n/, '').replace(/```$/, '');
+  const handleFileGeneration = useCallback(async (userInput: string, token: CancelToken) => {
+    setCurrentStage('analysis');
+    setLiveCoding(prev => ({ ...prev, files: [] }));
+
+    onConsoleLog('🤖 Streaming code generation...', 'info');
+
+    const existingFiles = contextRef.current.project.files;
+    // A fresh project renders straight into the editor; later turns are previewed first
+    const isFirstGeneration = Object.keys(existingFiles).length === 0;
+
+    const streamedFiles: string[] = [];
+    // Files streamed straight into the editor, with their languages
+    const liveFiles = new Map<string, string>();
+    const fileContents: Record<string, string> = {};
+
+    // File events only drive the live view; the validated manifest is applied at the end
+    const { messageId, content, manifest } = await streamResponse(userInput, (event) => {
+      if (token.cancelled) return;
+      if ((event.type === 'file-start' || event.type === 'file-end') && event.action === 'delete') return;
+
+      switch (event.type) {
+        case 'file-start':
+          fileContents[event.path] = '';
+          setLiveCoding(prev => ({
+            ...prev,
+            fileName: event.path,
+            language: event.language,
+            content: '',
+            isActive: true
+          }));
+          onConsoleLog(`📝 Writing ${event.path}...`, 'info');
+          if (isFirstGeneration && event.action !== 'edit') {
+            liveFiles.set(event.path, event.language);
+            onFileGenerated?.(event.path, '', event.language);
+          }
+          break;
+        case 'file-delta':
+          if (!(event.path in fileContents)) break;
+          fileContents[event.path] += event.text;
+          setLiveCoding(prev => ({ ...prev, content: fileContents[event.path] }));
+          if (liveFiles.has(event.path)) {
+            onFileGenerated?.(event.path, fileContents[event.path], liveFiles.get(event.path)!);
+          }
+          break;
+        case 'file-end':
+          if (!streamedFiles.includes(event.path)) streamedFiles.push(event.path);
+          setLiveCoding(prev => ({ ...prev, files: [...streamedFiles] }));
+          break;
+      }
+    });
 
-        const fileName = generateFileName(code, i);
+    onConsoleLog('✅ Response received successfully', 'success');
 
-        if (onFileGenerated) {
-          onFileGenerated(fileName, code, language);
-        }
+    const changedFiles = manifest?.files ?? [];
+    const changes = toPendingChanges(manifest, existingFiles);
+    const filesCreated = changes.filter(change => change.action !== 'delete').map(change => change.path);
 
-        filesCreated.push(fileName);
+    if (changes.length > 0) {
+      if (isFirstGeneration) {
+        applyChanges(changes, userInput);
+      } else {
+        setPendingChanges({ prompt: userInput, changes });
+        onConsoleLog(`🔍 ${changes.length} file change${changes.length === 1 ? '' : 's'} ready for review`, 'info');
       }
     }
 
-    // Show the response
-    const aiMessage: ChatMessage = {
-      id: Date.now().toString(),
-      sender: 'ai',
-      content: aiResponse,
-      timestamp: new Date(),
-      type: codeBlocks.length > 0 ? 'code' : 'normal',
-      metadata: filesCreated.length > 0 ? {
+    setMessages(prev => prev.map(msg => msg.id === messageId ? {
+      ...msg,
+      content: (changedFiles.length > 0 ? manifest!.summary : content) || "I'd be happy to help! Could you provide more specific details?",
+      type: changedFiles.length > 0 ? 'code' : 'normal',
+      metadata: changedFiles.length > 0 ? {
         filesGenerated: filesCreated,
-        technologies: ['HTML', 'CSS', 'JavaScript'],
-        estimatedLines: codeBlocks.reduce((acc, block) => acc + block.split('\n').length, 0)
+        technologies: Array.from(new Set(changedFiles.map(file => file.language))),
+        estimatedLines: changedFiles.reduce((acc, file) => acc + file.content.split('\n').length, 0)
       } : undefined
-    };
-
-    setMessages(prev => [...prev, aiMessage]);
+    } : msg));
 
     if (filesCreated.length > 0) {
       setGenerationComplete(true);
       setIsGenerationMode(false);
     }
-  }, [onFileGenerated, onConsoleLog, generateFileName]);
+  }, [onFileGenerated, onConsoleLog, streamResponse, applyChanges]);
 
   const handleChatResponse = useCallback(async (userInput: string, token: CancelToken) => {
     onConsoleLog('💬 Generating chat response...', 'info');
 
-    const response = await fetch('/api/claude-proxy', {
-      method: 'POST',
-      headers: { 
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      body: JSON.stringify({ prompt: userInput })
-    });
+    const { messageId, content } = await streamResponse(userInput);
+    onConsoleLog('✅ Chat response received successfully', 'success');
 
-    if (!response.ok) {
-      throw new Error(`Response Error: ${response.status}`);
+    if (!content && !token.cancelled) {
+      setMessages(prev => prev.map(msg => msg.id === messageId ? {
+        ...msg,
+        content: "I received your message but couldn't generate a response. Please try again."
+      } : msg));
     }
+  }, [onConsoleLog, streamResponse]);
 
-    const data = await response.json();
-    onConsoleLog('✅ Chat response received successfully', 'success');
-
-    const aiMessage: ChatMessage = {
-      id: Date.now().toString(),
+  const addSystemMessage = useCallback((content: string) => {
+    setMessages(prev => [...prev, {
+      id: `${Date.now()}-${prev.length}`,
       sender: 'ai',
-      content: data.response || "I received your message but couldn't generate a response. Please try again.",
+      content,
       timestamp: new Date(),
-      type: 'normal'
-    };
+      type: 'system'
+    }]);
+  }, []);
 
-    setMessages(prev => [...prev, aiMessage]);
-  }, [onConsoleLog]);
+  const endFixSession = useCallback(() => {
+    const session = fixSessionRef.current;
+    if (session?.settleTimer) clearTimeout(session.settleTimer);
+    fixSessionRef.current = null;
+    setIsFixing(false);
+  }, []);
 
-  const simulateTyping = useCallback(async (code: string, fileName: string, language: string) => {
-    const chunks = code.split('');
-    let currentContent = '';
+  // One round of the fix loop: sends the error with the project files and
+  // applies the returned patch straight away, then waits for the preview to
+  // either settle or throw again
+  const runFixAttempt = useCallback(async (error: PreviewRuntimeError) => {
+    const session = fixSessionRef.current;
+    if (!session) return;
+    session.attempts++;
+    session.appliedAt = null;
+    const { attempts } = session;
+    const where = error.file ? ` (${error.file}${error.line ? `:${error.line}` : ''})` : '';
+    addSystemMessage(`🔧 Fix attempt ${attempts}/${maxFixAttempts}: ${firstLine(error.message)}${where}`);
+    onConsoleLog(`🔧 Asking the AI to fix: ${firstLine(error.message)}`, 'info');
 
-    setLiveCoding(prev => ({
-      ...prev,
-      fileName,
-      language,
-      isActive: true,
-      content: ''
-    }));
+    setIsLoading(true);
+    setPendingChanges(null);
+    abortControllerRef.current = new AbortController();
 
-    for (let i = 0; i < chunks.length; i += 20) {
-      currentContent += chunks.slice(i, i + 20).join('');
-      const progress = Math.min((i / chunks.length) * 100, 100);
+    try {
+      const existingFiles = contextRef.current.project.files;
+      const { message, stack, file, line } = error;
+      const { messageId, content, manifest } = await streamResponse(
+        `Fix this error from the preview: ${firstLine(message)}`,
+        undefined,
+        { runtimeError: { message, stack, file, line } }
+      );
+      if (fixSessionRef.current !== session) return;
+
+      const changes = toPendingChanges(manifest, existingFiles);
+      setMessages(prev => prev.map(msg => msg.id === messageId ? {
+        ...msg,
+        content: (changes.length > 0 ? manifest!.summary : content) || content,
+        type: changes.length > 0 ? 'code' : 'normal'
+      } : msg));
+
+      if (changes.length === 0) {
+        addSystemMessage('The AI did not propose any changes, so the fix loop stopped.');
+        endFixSession();
+        return;
+      }
 
-      setLiveCoding(prev => ({
-        ...prev,
-        content: currentContent,
-        progress
-      }));
+      applyChanges(changes, `Fix: ${firstLine(message)}`);
+      addSystemMessage(`Applied a fix to ${changes.map(change => change.path).join(', ')}. Waiting for the preview to reload...`);
+      session.appliedAt = Date.now();
+      session.settleTimer = setTimeout(() => {
+        if (fixSessionRef.current !== session) return;
+        addSystemMessage(`✅ The preview ran without errors after fix attempt ${attempts}.`);
+        onConsoleLog('✅ Preview error fixed', 'success');
+        endFixSession();
+      }, FIX_SETTLE_MS);
+    } catch (err) {
+      if (fixSessionRef.current !== session) return;
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      addSystemMessage(`❌ Fix attempt ${attempts} failed: ${errorMessage}`);
+      onConsoleLog(`❌ Fix attempt failed: ${errorMessage}`, 'error');
+      endFixSession();
+    } finally {
+      setIsLoading(false);
+      setCurrentStage('');
+      setStreamingMessageId(null);
+      abortControllerRef.current = null;
+    }
+  }, [maxFixAttempts, addSystemMessage, onConsoleLog, streamResponse, applyChanges, endFixSession]);
+
+  const startFixSession = useCallback((error: PreviewRuntimeError) => {
+    if (fixSessionRef.current || isLoading) return;
+    fixSessionRef.current = { attempts: 0, appliedAt: null, settleTimer: null };
+    setIsFixing(true);
+    setDismissedErrorId(error.id);
+    runFixAttempt(error);
+  }, [isLoading, runFixAttempt]);
+
+  useEffect(() => {
+    if (fixRequest) startFixSession(fixRequest);
+  }, [fixRequest]);
 
-      await new Promise(resolve => setTimeout(resolve, 5));
+  useEffect(() => {
+    if (!runtimeError) return;
+    const session = fixSessionRef.current;
+    if (!session) {
+      if (autoFix) startFixSession(runtimeError);
+      return;
     }
-  }, []);
+
+    // Errors while a request is in flight, or from the page being replaced, are not a verdict on the fix
+    if (session.appliedAt === null || Date.now() - session.appliedAt < FIX_GRACE_MS) return;
+    if (session.settleTimer) clearTimeout(session.settleTimer);
+    session.settleTimer = null;
+    session.appliedAt = null;
+
+    if (session.attempts >= maxFixAttempts) {
+      addSystemMessage(`⚠️ The preview still fails after ${session.attempts} fix attempt${session.attempts === 1 ? '' : 's'}: ${firstLine(runtimeError.message)}`);
+      onConsoleLog('⚠️ Gave up fixing the preview error', 'error');
+      endFixSession();
+      return;
+    }
+    runFixAttempt(runtimeError);
+  }, [runtimeError]);
 
   const saveProject = useCallback(async (prompt: string, filesCreated: string[], codeBlocks: string[]) => {
     try {
@@ -669,13 +920,17 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
       cancelToken.cancel();
       onConsoleLog('🛑 Generation cancelled by user', 'info');
     }
+    if (fixSessionRef.current) {
+      endFixSession();
+      addSystemMessage('🛑 Fix loop cancelled.');
+    }
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
     setIsLoading(false);
     setCurrentStage('');
     setLiveCoding(prev => ({ ...prev, isActive: false }));
-  }, [cancelToken, onConsoleLog]);
+  }, [cancelToken, onConsoleLog, endFixSession, addSystemMessage]);
 
   return (
     <div className="flex flex-col h-full bg-gray-900 text-white">
@@ -696,16 +951,56 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
             </div>
           </div>
           
-          {isLoading && (
-            <Button
-              onClick={cancelGeneration}
-              variant="outline"
-              size="sm"
-              className="border-red-500 text-red-500 hover:bg-red-500 hover:text-white"
+          <div className="flex items-center space-x-3">
+            <label className="flex items-center space-x-2 text-xs text-gray-400" title="Send preview errors to the AI automatically">
+              <Switch checked={autoFix} onCheckedChange={setAutoFix} />
+              <span>Auto-fix</span>
+            </label>
+            <select
+              value={maxFixAttempts}
+              onChange={(e) => setMaxFixAttempts(Number(e.target.value))}
+              className="bg-gray-800 border border-gray-600 rounded text-xs text-gray-300 px-1 py-0.5"
+              title="Fix attempts before giving up"
             >
-              Cancel
-            </Button>
-          )}
+              {[1, 2, 3, 4, 5].map(count => (
+                <option key={count} value={count}>{count} {count === 1 ? 'try' : 'tries'}</option>
+              ))}
+            </select>
+
+            {user && project.id && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowShare(true)}
+                className="h-7 w-7 text-gray-400 hover:bg-gray-700"
+                title="Share project"
+              >
+                <Share2 className="w-4 h-4" />
+              </Button>
+            )}
+            {user && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowApiTokens(true)}
+                className="h-7 w-7 text-gray-400 hover:bg-gray-700"
+                title="API tokens"
+              >
+                <KeyRound className="w-4 h-4" />
+              </Button>
+            )}
+
+            {(isLoading || isFixing) && (
+              <Button
+                onClick={cancelGeneration}
+                variant="outline"
+                size="sm"
+                className="border-red-500 text-red-500 hover:bg-red-500 hover:text-white"
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Progress Indicator */}
@@ -716,16 +1011,28 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
         />
       </div>
 
+      <ApiTokensDialog open={showApiTokens} onOpenChange={setShowApiTokens} />
+      <ShareDialog project={project} open={showShare} onOpenChange={setShowShare} />
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.map((message) => (
           <MessageBubble
             key={message.id}
             message={message}
+            isStreaming={message.id === streamingMessageId}
             onDismiss={message.type === 'error' ? () => dismissError(message.id) : undefined}
           />
         ))}
 
+        {pendingChanges && (
+          <ChangePreview
+            changes={pendingChanges.changes}
+            onAccept={acceptPendingChanges}
+            onReject={rejectPendingChanges}
+          />
+        )}
+
         {/* Live Coding Display */}
         {liveCoding.isActive && (
           <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
@@ -734,9 +1041,14 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
                 <Code className="w-4 h-4 text-green-500" />
                 <span className="text-sm font-medium">Generating: {liveCoding.fileName}</span>
               </div>
-              <span className="text-xs text-gray-400">{Math.round(liveCoding.progress)}%</span>
+              <span className="text-xs text-gray-400">{liveCoding.content.split('\n').length - 1} lines</span>
             </div>
-            <CodeStream isActive={liveCoding.isActive} files={[liveCoding.fileName]} />
+            <CodeStream
+              isActive={liveCoding.isActive}
+              files={liveCoding.files}
+              activeFile={liveCoding.fileName}
+              content={liveCoding.content}
+            />
           </div>
         )}
 
@@ -762,6 +1074,28 @@ export default function ChatInterface({ project, onConsoleLog, onAppUpdate, onFi
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Preview error */}
+      {runtimeError && !isFixing && runtimeError.id !== dismissedErrorId && (
+        <div className="flex-shrink-0 border-t border-gray-700 px-4 py-2 flex items-center space-x-3 bg-red-500/10">
+          <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+          <span className="flex-1 text-xs text-red-300 truncate" title={runtimeError.message}>
+            Preview error: {firstLine(runtimeError.message)}
+          </span>
+          <Button
+            size="sm"
+            onClick={() => startFixSession(runtimeError)}
+            disabled={isLoading}
+            className="h-7 bg-red-600 hover:bg-red-700 text-white"
+          >
+            <Wand2 className="w-3 h-3 mr-1" />
+            Fix with AI
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => setDismissedErrorId(runtimeError.id)} className="h-6 w-6 hover:bg-gray-700">
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+
       {/* Input Area */}
       <div className="flex-shrink-0 border-t border-gray-700 p-4">
         <div className="flex space-x-3">
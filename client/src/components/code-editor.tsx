@@ -1,8 +1,12 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
+import { EditorView } from '@codemirror/view';
+import { Annotation, EditorState } from '@codemirror/state';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
-import { FileContent } from '@/lib/file-system';
-import { FileText, X } from 'lucide-react';
+import { FileContent, imageMimeType, isBinaryFile } from '@/lib/file-system';
+import { createEditorState } from '@/lib/editor-setup';
+import { typescriptExtensions } from '@/lib/editor-typescript';
+import type { EditorLocation } from '@/hooks/use-project';
+import { FileText, FileImage, X } from 'lucide-react';
 
 interface CodeEditorProps {
   files: Record<string, FileContent>;
@@ -11,32 +15,145 @@ interface CodeEditorProps {
   onFileChange: (fileName: string, content: string) => void;
   onFileSelect: (fileName: string) => void;
   onFileClose: (fileName: string) => void;
+  revealLocation?: EditorLocation | null;
+  // Go-to-definition into another project file
+  onOpenLocation?: (location: EditorLocation) => void;
+  // Files with edits the server has not saved yet
+  dirtyFiles?: Set<string>;
+  // Shown at the right end of the tab bar, e.g. the autosave status
+  statusSlot?: React.ReactNode;
 }
 
+// Editor state of a file that is open in a tab but not showing
+interface FileSession {
+  state: EditorState;
+  scrollTop: number;
+}
+
+// Marks edits that came from outside the editor (AI changes, restores), so they are not echoed back
+const externalChange = Annotation.define<boolean>();
+
+// Smallest single replacement turning `before` into `after`, so the cursor and
+// undo history around untouched text survive external edits
+const minimalChange = (before: string, after: string) => {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+  return { from: start, to: endBefore, insert: after.slice(start, endAfter) };
+};
+
 export default function CodeEditor({
   files,
   activeFile,
   openFiles,
   onFileChange,
   onFileSelect,
-  onFileClose
+  onFileClose,
+  revealLocation,
+  onOpenLocation,
+  dirtyFiles,
+  statusSlot
 }: CodeEditorProps) {
-  const [editorContent, setEditorContent] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  // One editor state per open tab keeps undo history, selections and scroll across tab switches
+  const sessionsRef = useRef(new Map<string, FileSession>());
+  const shownFileRef = useRef<string | null>(null);
+  const revealedRef = useRef<EditorLocation | null>(null);
+  const onFileChangeRef = useRef(onFileChange);
+  onFileChangeRef.current = onFileChange;
+  const onOpenLocationRef = useRef(onOpenLocation);
+  onOpenLocationRef.current = onOpenLocation;
+
+  const changeListener = useMemo(() => EditorView.updateListener.of(update => {
+    const file = shownFileRef.current;
+    if (!file || !update.docChanged) return;
+    if (update.transactions.some(transaction => transaction.annotation(externalChange))) return;
+    onFileChangeRef.current(file, update.state.doc.toString());
+  }), []);
 
   useEffect(() => {
-    if (activeFile && files[activeFile]) {
-      setEditorContent(files[activeFile].content);
-    } else {
-      setEditorContent('');
+    const view = new EditorView({ parent: containerRef.current! });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // Closed and deleted files lose their state
+  useEffect(() => {
+    for (const file of Array.from(sessionsRef.current.keys())) {
+      if ((!openFiles.includes(file) && file !== activeFile) || !files[file]) {
+        sessionsRef.current.delete(file);
+      }
     }
-  }, [activeFile, files]);
+  }, [openFiles, activeFile, files]);
+
+  // Uploaded binaries are shown, not edited
+  const binaryFile = activeFile && isBinaryFile(files[activeFile]) ? activeFile : null;
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const sessions = sessionsRef.current;
+    const content = activeFile && !binaryFile ? files[activeFile]?.content : undefined;
+
+    if (shownFileRef.current !== (binaryFile ? null : activeFile)) {
+      const shown = shownFileRef.current;
+      if (shown && sessions.has(shown)) {
+        sessions.set(shown, { state: view.state, scrollTop: view.scrollDOM.scrollTop });
+      }
 
-  const handleContentChange = (content: string) => {
-    setEditorContent(content);
-    if (activeFile) {
-      onFileChange(activeFile, content);
+      if (!activeFile || content === undefined) {
+        shownFileRef.current = null;
+        view.setState(EditorState.create());
+        return;
+      }
+
+      const session = sessions.get(activeFile) ?? {
+        state: createEditorState(activeFile, content, [
+          changeListener,
+          ...typescriptExtensions(activeFile, location => onOpenLocationRef.current?.(location))
+        ]),
+        scrollTop: 0
+      };
+      sessions.set(activeFile, session);
+      shownFileRef.current = activeFile;
+      view.setState(session.state);
+      requestAnimationFrame(() => {
+        view.scrollDOM.scrollTop = session.scrollTop;
+      });
     }
-  };
+
+    // Edits made outside the editor land as one undoable change
+    const current = view.state.doc.toString();
+    if (content !== undefined && current !== content) {
+      view.dispatch({ changes: minimalChange(current, content), annotations: externalChange.of(true) });
+    }
+  }, [activeFile, binaryFile, files, changeListener]);
+
+  // Moves the cursor to the requested line once its file is showing
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !revealLocation || revealedRef.current === revealLocation) return;
+    if (revealLocation.file !== activeFile || shownFileRef.current !== activeFile) return;
+    revealedRef.current = revealLocation;
+
+    const { doc } = view.state;
+    const line = doc.line(Math.min(Math.max(revealLocation.line, 1), doc.lines));
+    const position = Math.min(line.from + Math.max((revealLocation.column ?? 1) - 1, 0), line.to);
+    view.dispatch({
+      selection: { anchor: position },
+      effects: EditorView.scrollIntoView(position, { y: 'center' })
+    });
+    view.focus();
+  }, [revealLocation, activeFile, files]);
 
   const handleTabClose = (fileName: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -59,6 +176,9 @@ export default function CodeEditor({
           >
             <FileText className="h-4 w-4 text-[var(--replit-text-dim)] flex-shrink-0" />
             <span className="truncate text-xs">{fileName.split('/').pop()}</span>
+            {dirtyFiles?.has(fileName) && (
+              <span className="h-2 w-2 rounded-full bg-[var(--replit-text-dim)] flex-shrink-0" title="Unsaved changes" />
+            )}
             {openFiles.length > 1 && (
               <Button
                 variant="ghost"
@@ -71,16 +191,29 @@ export default function CodeEditor({
             )}
           </div>
         ))}
+        {statusSlot && <div className="ml-auto flex-shrink-0">{statusSlot}</div>}
       </div>
 
       {/* Editor Content */}
-      <div className="flex-1 relative">
-        <Textarea
-          value={editorContent}
-          onChange={(e) => handleContentChange(e.target.value)}
-          className="code-editor w-full h-full border-0 bg-[var(--replit-bg)] text-[var(--replit-text)] resize-none focus:ring-0 focus:outline-none"
-          placeholder={activeFile ? `// Edit ${activeFile}...` : '// Select a file to start coding...'}
-        />
+      <div className="flex-1 relative overflow-hidden bg-[var(--replit-bg)]">
+        <div ref={containerRef} className={`absolute inset-0 ${activeFile && !binaryFile ? '' : 'hidden'}`} />
+        {binaryFile && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 p-4 text-sm text-[var(--replit-text-dim)]">
+            {imageMimeType(binaryFile) ? (
+              <img
+                src={`data:${imageMimeType(binaryFile)};base64,${files[binaryFile].content}`}
+                alt={binaryFile}
+                className="max-w-full max-h-[80%] object-contain"
+              />
+            ) : (
+              <FileImage className="h-12 w-12 opacity-50" />
+            )}
+            <span>{binaryFile} (binary file, {Math.round(files[binaryFile].content.length * 3 / 4 / 1024)} KB)</span>
+          </div>
+        )}
+        {!activeFile && (
+          <div className="code-editor p-4 text-[var(--replit-text-dim)]">// Select a file to start coding...</div>
+        )}
       </div>
     </>
   );
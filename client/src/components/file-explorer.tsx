@@ -1,20 +1,50 @@
-
-import { useState } from 'react';
-import { getFileIcon } from '@/lib/file-system';
-import { FileContent } from '@/lib/file-system';
+import { useState, useRef, useMemo } from 'react';
+import {
+  FileContent,
+  FOLDER_PLACEHOLDER,
+  MAX_UPLOAD_BYTES,
+  joinPath,
+  parentFolder,
+  readLocalFile
+} from '@/lib/file-system';
 import { Button } from '@/components/ui/button';
-import { 
-  FileText, 
-  Trash2, 
-  Folder, 
-  FolderOpen, 
-  ChevronRight, 
+import { Input } from '@/components/ui/input';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger
+} from '@/components/ui/context-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  FileText,
+  Trash2,
+  Folder,
+  FolderOpen,
+  ChevronRight,
   ChevronDown,
   FileCode,
   FileImage,
   FileJson,
   Html5,
-  FileType
+  FileType,
+  FilePlus,
+  FolderPlus,
+  Upload
 } from 'lucide-react';
 
 interface FileExplorerProps {
@@ -22,6 +52,10 @@ interface FileExplorerProps {
   activeFile: string | null;
   onFileSelect: (fileName: string) => void;
   onFileDelete: (fileName: string) => void;
+  onFileCreate?: (fileName: string, content?: string, type?: string) => void;
+  onFolderDelete?: (folder: string) => void;
+  // Renames or moves a file or a whole folder
+  onRename?: (from: string, to: string) => void;
 }
 
 interface FileTreeNode {
@@ -32,12 +66,59 @@ interface FileTreeNode {
   isOpen?: boolean;
 }
 
-export default function FileExplorer({ files, activeFile, onFileSelect, onFileDelete }: FileExplorerProps) {
+// The inline name input: renaming a node, or naming a new one inside `parent`
+type EditingState =
+  | { kind: 'rename'; path: string }
+  | { kind: 'new-file' | 'new-folder'; parent: string };
+
+// Paths dragged within the tree; anything else dropped on it is an upload
+const DRAG_TYPE = 'application/x-project-path';
+
+const baseName = (path: string) => path.split('/').pop() ?? path;
+
+const sortTree = (nodes: FileTreeNode[]): FileTreeNode[] =>
+  nodes
+    .sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1))
+    .map(node => (node.children ? { ...node, children: sortTree(node.children) } : node));
+
+export default function FileExplorer({
+  files,
+  activeFile,
+  onFileSelect,
+  onFileDelete,
+  onFileCreate,
+  onFolderDelete,
+  onRename
+}: FileExplorerProps) {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(['src', 'components', 'pages']));
+  const [editing, setEditingState] = useState<EditingState | null>(null);
+  // Enter and the blur that follows must not commit the same edit twice
+  const editingRef = useRef<EditingState | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<FileTreeNode | null>(null);
+  // Folder highlighted as the drop target; '' is the project root
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const uploadFolderRef = useRef('');
+  const { toast } = useToast();
+
+  const folders = useMemo(() => {
+    const result = new Set<string>();
+    Object.keys(files).forEach(filePath => {
+      for (let folder = parentFolder(filePath); folder; folder = parentFolder(folder)) result.add(folder);
+    });
+    return Array.from(result).sort();
+  }, [files]);
+
+  const pathExists = (path: string) => Boolean(files[path]) || folders.includes(path);
+
+  const showError = (title: string, description?: string) => {
+    toast({ title, description, variant: 'destructive' });
+  };
 
   const getFileTypeIcon = (fileName: string) => {
     const ext = fileName.split('.').pop()?.toLowerCase();
-    
+
     switch (ext) {
       case 'tsx':
       case 'ts':
@@ -57,6 +138,7 @@ export default function FileExplorer({ files, activeFile, onFileSelect, onFileDe
       case 'jpeg':
       case 'gif':
       case 'svg':
+      case 'webp':
         return <FileImage className="h-4 w-4 text-pink-500" />;
       default:
         return <FileText className="h-4 w-4 text-gray-400" />;
@@ -70,13 +152,16 @@ export default function FileExplorer({ files, activeFile, onFileSelect, onFileDe
     Object.keys(files).forEach(filePath => {
       const parts = filePath.split('/');
       let currentPath = '';
-      
+
       parts.forEach((part, index) => {
         const isFile = index === parts.length - 1;
         const parentPath = currentPath;
         currentPath = currentPath ? `${currentPath}/${part}` : part;
 
         if (isFile) {
+          // Placeholders only exist to keep empty folders around
+          if (part === FOLDER_PLACEHOLDER) return;
+
           const fileNode: FileTreeNode = {
             name: part,
             path: currentPath,
@@ -116,7 +201,7 @@ export default function FileExplorer({ files, activeFile, onFileSelect, onFileDe
       });
     });
 
-    return tree;
+    return sortTree(tree);
   };
 
   const toggleFolder = (folderPath: string) => {
@@ -131,82 +216,414 @@ export default function FileExplorer({ files, activeFile, onFileSelect, onFileDe
     });
   };
 
-  const handleDeleteFile = (fileName: string, e: React.MouseEvent) => {
+  // Opens `folder` and every folder above it
+  const expandTo = (folder: string) => {
+    setExpandedFolders(prev => {
+      const newSet = new Set(prev);
+      for (let path = folder; path; path = parentFolder(path)) newSet.add(path);
+      return newSet;
+    });
+  };
+
+  // Problem with a typed name or path, if any
+  const validatePath = (path: string): string | null => {
+    const segments = path.split('/');
+    if (segments.some(segment => !segment.trim())) return 'Names cannot be empty';
+    if (segments.some(segment => segment === '.' || segment === '..')) return 'Names cannot be "." or ".."';
+    if (/[\\:*?"<>|]/.test(path)) return 'Names cannot contain \\ : * ? " < > |';
+    if (pathExists(path)) return `${path} already exists`;
+    return null;
+  };
+
+  const setEditing = (next: EditingState | null) => {
+    editingRef.current = next;
+    setEditingState(next);
+  };
+
+  const startCreate = (kind: 'new-file' | 'new-folder', parent: string) => {
+    if (parent) expandTo(parent);
+    setEditing({ kind, parent });
+    setEditValue('');
+  };
+
+  const startRename = (node: FileTreeNode) => {
+    setEditing({ kind: 'rename', path: node.path });
+    setEditValue(node.name);
+  };
+
+  const commitEdit = () => {
+    const editing = editingRef.current;
+    if (!editing) return;
+    const name = editValue.trim().replace(/^\/+|\/+$/g, '');
+    setEditing(null);
+    if (!name) return;
+
+    if (editing.kind === 'rename') {
+      if (name === baseName(editing.path)) return;
+      const target = joinPath(parentFolder(editing.path), name);
+      const problem = validatePath(target);
+      if (problem) return showError('Could not rename', problem);
+      movePath(editing.path, target);
+      return;
+    }
+
+    const target = joinPath(editing.parent, name);
+    const problem = validatePath(target);
+    if (problem) return showError(`Could not create ${editing.kind === 'new-file' ? 'file' : 'folder'}`, problem);
+
+    if (editing.kind === 'new-file') {
+      onFileCreate?.(target);
+      expandTo(parentFolder(target));
+      onFileSelect(target);
+    } else {
+      onFileCreate?.(joinPath(target, FOLDER_PLACEHOLDER));
+      expandTo(target);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitEdit();
+    } else if (e.key === 'Escape') {
+      setEditing(null);
+    }
+  };
+
+  // Renames or moves, keeping a moved folder's expanded state
+  const movePath = (from: string, to: string) => {
+    onRename?.(from, to);
+    if (folders.includes(from)) {
+      setExpandedFolders(prev => new Set(Array.from(prev).map(path =>
+        path === from || path.startsWith(`${from}/`) ? to + path.slice(from.length) : path
+      )));
+    }
+    expandTo(parentFolder(to));
+  };
+
+  const moveInto = (path: string, folder: string) => {
+    if (parentFolder(path) === folder) return;
+    if (folder === path || folder.startsWith(`${path}/`)) {
+      return showError('Could not move', 'A folder cannot be moved into itself');
+    }
+    const target = joinPath(folder, baseName(path));
+    if (pathExists(target)) return showError('Could not move', `${target} already exists`);
+    movePath(path, target);
+  };
+
+  const duplicateFile = (path: string) => {
+    const file = files[path];
+    if (!file) return;
+    const name = baseName(path);
+    const dot = name.lastIndexOf('.');
+    const stem = dot > 0 ? name.slice(0, dot) : name;
+    const ext = dot > 0 ? name.slice(dot) : '';
+    let copy = joinPath(parentFolder(path), `${stem} copy${ext}`);
+    for (let n = 2; pathExists(copy); n++) copy = joinPath(parentFolder(path), `${stem} copy ${n}${ext}`);
+    onFileCreate?.(copy, file.content, file.type);
+    onFileSelect(copy);
+  };
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    if (pendingDelete.type === 'folder') onFolderDelete?.(pendingDelete.path);
+    else onFileDelete(pendingDelete.path);
+    setPendingDelete(null);
+  };
+
+  const handleDeleteFile = (node: FileTreeNode, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (confirm(`Are you sure you want to delete ${fileName}?`)) {
-      onFileDelete(fileName);
+    setPendingDelete(node);
+  };
+
+  const chooseUpload = (folder: string) => {
+    uploadFolderRef.current = folder;
+    uploadInputRef.current?.click();
+  };
+
+  const uploadFiles = async (localFiles: File[], folder: string) => {
+    let lastUploaded: string | null = null;
+    for (const localFile of localFiles) {
+      const target = joinPath(folder, localFile.name);
+      if (localFile.size > MAX_UPLOAD_BYTES) {
+        showError(`Skipped ${localFile.name}`, `Files over ${MAX_UPLOAD_BYTES / 1024 / 1024} MB cannot be uploaded`);
+        continue;
+      }
+      if (pathExists(target)) {
+        showError(`Skipped ${localFile.name}`, `${target} already exists`);
+        continue;
+      }
+      try {
+        const file = await readLocalFile(localFile);
+        onFileCreate?.(target, file.content, file.type);
+        lastUploaded = target;
+      } catch (error) {
+        showError(`Could not read ${localFile.name}`, (error as Error).message);
+      }
     }
+    if (folder) expandTo(folder);
+    if (lastUploaded) onFileSelect(lastUploaded);
+  };
+
+  const handleUploadInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (selected.length > 0) uploadFiles(selected, uploadFolderRef.current);
+  };
+
+  // Drop handlers for a folder row, or the root area when `folder` is ''
+  const dropHandlers = (folder: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = e.dataTransfer.types.includes(DRAG_TYPE) ? 'move' : 'copy';
+      setDropTarget(folder);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      e.stopPropagation();
+      setDropTarget(prev => (prev === folder ? null : prev));
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      const dragged = e.dataTransfer.getData(DRAG_TYPE);
+      if (dragged) moveInto(dragged, folder);
+      else if (e.dataTransfer.files.length > 0) uploadFiles(Array.from(e.dataTransfer.files), folder);
+    }
+  });
+
+  const dragHandlers = (path: string) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.stopPropagation();
+      e.dataTransfer.setData(DRAG_TYPE, path);
+      e.dataTransfer.effectAllowed = 'move';
+    },
+    onDragEnd: () => setDropTarget(null)
+  });
+
+  const renderNameInput = (paddingLeft: number, icon: React.ReactNode) => (
+    <div className="flex items-center space-x-2 p-1" style={{ paddingLeft: `${paddingLeft}px` }}>
+      {icon}
+      <Input
+        autoFocus
+        value={editValue}
+        onChange={e => setEditValue(e.target.value)}
+        onKeyDown={handleEditKeyDown}
+        onBlur={commitEdit}
+        onFocus={e => {
+          // Select the name without its extension, like most editors
+          const dot = e.target.value.lastIndexOf('.');
+          e.target.setSelectionRange(0, dot > 0 ? dot : e.target.value.length);
+        }}
+        className="h-6 px-1 py-0 text-sm"
+      />
+    </div>
+  );
+
+  // The "new file" / "new folder" input, shown at the top of its parent
+  const renderNewItemInput = (parent: string, depth: number) => {
+    if (!editing || editing.kind === 'rename' || editing.parent !== parent) return null;
+    return renderNameInput(
+      depth * 16 + 8 + (editing.kind === 'new-file' ? 16 : 0),
+      editing.kind === 'new-file'
+        ? <FileText className="h-4 w-4 text-gray-400 flex-shrink-0" />
+        : <Folder className="h-4 w-4 text-blue-500 flex-shrink-0" />
+    );
+  };
+
+  const renderMoveMenu = (node: FileTreeNode) => {
+    const destinations = ['', ...folders].filter(folder =>
+      folder !== parentFolder(node.path) && folder !== node.path && !folder.startsWith(`${node.path}/`)
+    );
+    return (
+      <ContextMenuSub>
+        <ContextMenuSubTrigger disabled={destinations.length === 0}>Move to</ContextMenuSubTrigger>
+        <ContextMenuSubContent className="max-h-72 overflow-y-auto">
+          {destinations.map(folder => (
+            <ContextMenuItem key={folder || '/'} onSelect={() => moveInto(node.path, folder)}>
+              {folder || 'Project root'}
+            </ContextMenuItem>
+          ))}
+        </ContextMenuSubContent>
+      </ContextMenuSub>
+    );
+  };
+
+  const renderNodeMenu = (node: FileTreeNode) => {
+    const folder = node.type === 'folder' ? node.path : parentFolder(node.path);
+    return (
+      <ContextMenuContent className="w-48" onCloseAutoFocus={e => e.preventDefault()}>
+        {node.type === 'file' && (
+          <>
+            <ContextMenuItem onSelect={() => onFileSelect(node.path)}>Open</ContextMenuItem>
+            <ContextMenuSeparator />
+          </>
+        )}
+        <ContextMenuItem onSelect={() => startCreate('new-file', folder)}>New File…</ContextMenuItem>
+        <ContextMenuItem onSelect={() => startCreate('new-folder', folder)}>New Folder…</ContextMenuItem>
+        <ContextMenuItem onSelect={() => chooseUpload(folder)}>Upload Files…</ContextMenuItem>
+        <ContextMenuSeparator />
+        <ContextMenuItem onSelect={() => startRename(node)}>Rename…</ContextMenuItem>
+        {node.type === 'file' && (
+          <ContextMenuItem onSelect={() => duplicateFile(node.path)}>Duplicate</ContextMenuItem>
+        )}
+        {renderMoveMenu(node)}
+        <ContextMenuSeparator />
+        <ContextMenuItem
+          className="text-red-400 focus:text-red-400"
+          disabled={node.type === 'file' && Object.keys(files).length <= 1}
+          onSelect={() => setPendingDelete(node)}
+        >
+          Delete
+        </ContextMenuItem>
+      </ContextMenuContent>
+    );
   };
 
   const renderTreeNode = (node: FileTreeNode, depth: number = 0): React.ReactNode => {
     const isExpanded = expandedFolders.has(node.path);
     const paddingLeft = depth * 16 + 8;
+    const isRenaming = editing?.kind === 'rename' && editing.path === node.path;
 
     if (node.type === 'folder') {
+      const folderIcon = isExpanded ? (
+        <FolderOpen className="h-4 w-4 text-blue-500" />
+      ) : (
+        <Folder className="h-4 w-4 text-blue-500" />
+      );
+
       return (
         <div key={node.path}>
-          <div
-            className="flex items-center space-x-1 p-1 hover:bg-[var(--replit-hover)] cursor-pointer text-sm transition-colors group"
-            style={{ paddingLeft: `${paddingLeft}px` }}
-            onClick={() => toggleFolder(node.path)}
-          >
-            {isExpanded ? (
-              <ChevronDown className="h-3 w-3 text-[var(--replit-text-dim)]" />
-            ) : (
-              <ChevronRight className="h-3 w-3 text-[var(--replit-text-dim)]" />
-            )}
-            {isExpanded ? (
-              <FolderOpen className="h-4 w-4 text-blue-500" />
-            ) : (
-              <Folder className="h-4 w-4 text-blue-500" />
-            )}
-            <span className="text-[var(--replit-text)] font-medium">{node.name}</span>
-          </div>
-          {isExpanded && node.children && (
+          {isRenaming ? renderNameInput(paddingLeft + 16, folderIcon) : (
+            <ContextMenu>
+              <ContextMenuTrigger asChild>
+                <div
+                  className={`flex items-center space-x-1 p-1 hover:bg-[var(--replit-hover)] cursor-pointer text-sm transition-colors group ${
+                    dropTarget === node.path ? 'bg-[var(--replit-hover)] ring-1 ring-inset ring-[var(--replit-accent)]' : ''
+                  }`}
+                  style={{ paddingLeft: `${paddingLeft}px` }}
+                  onClick={() => toggleFolder(node.path)}
+                  {...dragHandlers(node.path)}
+                  {...dropHandlers(node.path)}
+                >
+                  {isExpanded ? (
+                    <ChevronDown className="h-3 w-3 text-[var(--replit-text-dim)]" />
+                  ) : (
+                    <ChevronRight className="h-3 w-3 text-[var(--replit-text-dim)]" />
+                  )}
+                  {folderIcon}
+                  <span className="text-[var(--replit-text)] font-medium">{node.name}</span>
+                </div>
+              </ContextMenuTrigger>
+              {renderNodeMenu(node)}
+            </ContextMenu>
+          )}
+          {isExpanded && (
             <div>
-              {node.children.map(child => renderTreeNode(child, depth + 1))}
+              {renderNewItemInput(node.path, depth + 1)}
+              {node.children?.map(child => renderTreeNode(child, depth + 1))}
             </div>
           )}
         </div>
       );
     }
 
+    if (isRenaming) {
+      return <div key={node.path}>{renderNameInput(paddingLeft + 16, getFileTypeIcon(node.name))}</div>;
+    }
+
     return (
-      <div
-        key={node.path}
-        className={`flex items-center justify-between space-x-2 p-1 cursor-pointer text-sm transition-colors group ${
-          node.path === activeFile
-            ? 'bg-[var(--replit-accent)] text-white'
-            : 'hover:bg-[var(--replit-hover)] text-[var(--replit-text)]'
-        }`}
-        style={{ paddingLeft: `${paddingLeft + 16}px` }}
-        onClick={() => onFileSelect(node.path)}
-      >
-        <div className="flex items-center space-x-2 flex-1 min-w-0">
-          {getFileTypeIcon(node.name)}
-          <span className="truncate">{node.name}</span>
-        </div>
-        {Object.keys(files).length > 1 && (
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-5 w-5 opacity-0 group-hover:opacity-100 hover:bg-red-500/20"
-            onClick={(e) => handleDeleteFile(node.path, e)}
+      <ContextMenu key={node.path}>
+        <ContextMenuTrigger asChild>
+          <div
+            className={`flex items-center justify-between space-x-2 p-1 cursor-pointer text-sm transition-colors group ${
+              node.path === activeFile
+                ? 'bg-[var(--replit-accent)] text-white'
+                : 'hover:bg-[var(--replit-hover)] text-[var(--replit-text)]'
+            }`}
+            style={{ paddingLeft: `${paddingLeft + 16}px` }}
+            onClick={() => onFileSelect(node.path)}
+            {...dragHandlers(node.path)}
+            {...dropHandlers(parentFolder(node.path))}
           >
-            <Trash2 className="h-3 w-3" />
-          </Button>
-        )}
-      </div>
+            <div className="flex items-center space-x-2 flex-1 min-w-0">
+              {getFileTypeIcon(node.name)}
+              <span className="truncate">{node.name}</span>
+            </div>
+            {Object.keys(files).length > 1 && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5 opacity-0 group-hover:opacity-100 hover:bg-red-500/20"
+                onClick={(e) => handleDeleteFile(node, e)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        </ContextMenuTrigger>
+        {renderNodeMenu(node)}
+      </ContextMenu>
     );
   };
 
   const fileTree = buildFileTree();
+  const deletedFileCount = pendingDelete?.type === 'folder'
+    ? Object.keys(files).filter(path => path.startsWith(`${pendingDelete.path}/`) && baseName(path) !== FOLDER_PLACEHOLDER).length
+    : 0;
 
   return (
-    <div className="flex-1 overflow-y-auto">
-      <div className="p-2">
-        {fileTree.map(node => renderTreeNode(node))}
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center justify-end px-2 pt-1">
+        <Button variant="ghost" size="icon" className="h-6 w-6" title="New file" onClick={() => startCreate('new-file', '')}>
+          <FilePlus className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-6 w-6" title="New folder" onClick={() => startCreate('new-folder', '')}>
+          <FolderPlus className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-6 w-6" title="Upload files" onClick={() => chooseUpload('')}>
+          <Upload className="h-3.5 w-3.5" />
+        </Button>
+        <input ref={uploadInputRef} type="file" multiple className="hidden" onChange={handleUploadInput} />
       </div>
+
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div
+            className={`flex-1 overflow-y-auto ${dropTarget === '' ? 'ring-1 ring-inset ring-[var(--replit-accent)]' : ''}`}
+            {...dropHandlers('')}
+          >
+            <div className="p-2">
+              {renderNewItemInput('', 0)}
+              {fileTree.map(node => renderTreeNode(node))}
+            </div>
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent className="w-48" onCloseAutoFocus={e => e.preventDefault()}>
+          <ContextMenuItem onSelect={() => startCreate('new-file', '')}>New File…</ContextMenuItem>
+          <ContextMenuItem onSelect={() => startCreate('new-folder', '')}>New Folder…</ContextMenuItem>
+          <ContextMenuItem onSelect={() => chooseUpload('')}>Upload Files…</ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.type === 'folder'
+                ? `The folder and the ${deletedFileCount} file${deletedFileCount === 1 ? '' : 's'} in it will be removed from the project.`
+                : `${pendingDelete?.path} will be removed from the project.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,90 @@
+import { useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+
+interface ResetPasswordPageProps {
+  // From the ?token= of the emailed link; defaults to the current URL's
+  token?: string | null;
+  // Called once the new password is set; the user is signed in by then
+  onReset: () => void;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Page behind the /reset-password?token=... link from POST /api/auth/password-reset
+export default function ResetPasswordPage({
+  token = new URLSearchParams(window.location.search).get('token'),
+  onReset
+}: ResetPasswordPageProps) {
+  const { resetPassword } = useAuth();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!token) return;
+    if (password !== confirmation) {
+      setError('The passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await resetPassword(token, password);
+      onReset();
+    } catch (resetError) {
+      setError((resetError as Error).message);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex h-full items-center justify-center bg-gray-900 text-white p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-4 rounded-lg border border-gray-700 bg-gray-800 p-6">
+        <div className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          <h1 className="text-lg font-semibold">Choose a new password</h1>
+        </div>
+
+        {!token ? (
+          <p className="text-sm text-red-400">This reset link is incomplete. Request a new one from the sign-in page.</p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor="reset-password">New password</Label>
+              <Input
+                id="reset-password"
+                type="password"
+                autoComplete="new-password"
+                minLength={MIN_PASSWORD_LENGTH}
+                maxLength={200}
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reset-password-confirmation">Confirm new password</Label>
+              <Input
+                id="reset-password-confirmation"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={e => setConfirmation(e.target.value)}
+              />
+            </div>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <Button type="submit" className="w-full" disabled={isSubmitting || password.length < MIN_PASSWORD_LENGTH || !confirmation}>
+              {isSubmitting ? 'Saving...' : 'Set password and sign in'}
+            </Button>
+          </>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -1,35 +1,160 @@
-import { useState } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
-import { Eye, Terminal, MessageSquare, RefreshCw, Trash } from 'lucide-react';
-import { Project } from '@/lib/file-system';
+import { Eye, Terminal, MessageSquare, RefreshCw, Trash, History, Wand2, Pause, Play, CircleAlert } from 'lucide-react';
+import { Project, FileContent } from '@/lib/file-system';
 import ChatInterface from './chat-interface-new';
+import VersionHistory from './version-history';
+import { usePreview } from '@/hooks/use-preview';
+import { useAuth } from '@/hooks/useAuth';
+import { useTypeScriptDiagnostics } from '@/hooks/use-typescript-diagnostics';
+import type { EditorLocation } from '@/hooks/use-project';
+import {
+  createLocationResolver,
+  formatLocation,
+  type PreviewRuntimeError,
+  type SourceLocation
+} from '@/lib/preview-console';
+import {
+  PREVIEW_CONSOLE_SOURCE,
+  PREVIEW_HOST_SOURCE,
+  type PreviewConsoleMessage,
+  type PreviewStylesheetsMessage
+} from '@shared/preview-console';
+import type { TsDiagnostic } from '@/lib/ts-language-service';
 
 interface RightPanelProps {
   project: Project;
   activeFile: string | null;
+  onFilesRestored?: (files: Record<string, FileContent>) => void;
+  onOpenFile?: (location: EditorLocation) => void;
+  // Files the AI streams in or edits go through the project state like user
+  // edits, so autosave sees them instead of saving over them
+  onFileCreate?: (fileName: string, content: string, type: string) => void;
+  onFileChange?: (fileName: string, content: string) => void;
+  onFileDelete?: (fileName: string) => void;
 }
 
-type TabType = 'preview' | 'console' | 'chat';
+type TabType = 'preview' | 'console' | 'problems' | 'chat' | 'history';
 
-export default function RightPanel({ project, activeFile }: RightPanelProps) {
+type ConsoleEntryType = 'success' | 'error' | 'warning' | 'info';
+
+interface ConsoleEntry {
+  timestamp: string;
+  message: string;
+  type: ConsoleEntryType;
+  // Project file the message came from, for messages forwarded by the preview
+  location?: SourceLocation;
+  // Uncaught preview errors can be handed to the AI to fix
+  error?: PreviewRuntimeError;
+}
+
+// A preview stuck logging in a loop must not grow the console without bound
+const MAX_CONSOLE_ENTRIES = 500;
+
+const consoleTypeByLevel: Record<PreviewConsoleMessage['level'], ConsoleEntryType> = {
+  log: 'info',
+  info: 'info',
+  debug: 'info',
+  warn: 'warning',
+  error: 'error'
+};
+
+export default function RightPanel({
+  project,
+  activeFile,
+  onFilesRestored,
+  onOpenFile,
+  onFileCreate,
+  onFileChange,
+  onFileDelete
+}: RightPanelProps) {
   const [activeTab, setActiveTab] = useState<TabType>('console');
-  const [consoleOutput, setConsoleOutput] = useState([
+  const [consoleOutput, setConsoleOutput] = useState<ConsoleEntry[]>([
     { timestamp: new Date().toLocaleTimeString(), message: '$ Ready', type: 'success' }
   ]);
+  // Once opened, the preview keeps running behind the other tabs so its
+  // console output keeps reaching the Console tab
+  const [previewStarted, setPreviewStarted] = useState(false);
+  const [livePaused, setLivePaused] = useState(false);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const { login } = useAuth();
+  const preview = usePreview(previewStarted ? project : null, {
+    paused: livePaused,
+    onStylesheetsChanged: paths => {
+      const frame = iframeRef.current?.contentWindow;
+      if (!frame || !preview.url) return false;
+      const base = new URL(preview.url, window.location.origin);
+      const message: PreviewStylesheetsMessage = {
+        source: PREVIEW_HOST_SOURCE,
+        type: 'stylesheets-changed',
+        urls: paths.map(path => new URL(path.split('/').map(encodeURIComponent).join('/'), base).href)
+      };
+      // The sandboxed preview has an opaque origin, which no target origin matches
+      frame.postMessage(message, '*');
+      return true;
+    }
+  });
+  const filesRef = useRef(project.files);
+  filesRef.current = project.files;
+  const nextErrorIdRef = useRef(1);
+  // Latest uncaught preview error, and the one the user asked the AI to fix
+  const [runtimeError, setRuntimeError] = useState<PreviewRuntimeError | null>(null);
+  const [fixRequest, setFixRequest] = useState<PreviewRuntimeError | null>(null);
+  const typeCheck = useTypeScriptDiagnostics(project.files);
+  const problemCount = typeCheck.diagnostics.length;
+
+  const problemsByFile = useMemo(() => {
+    const groups = new Map<string, TsDiagnostic[]>();
+    for (const diagnostic of typeCheck.diagnostics) {
+      groups.set(diagnostic.file, [...(groups.get(diagnostic.file) ?? []), diagnostic]);
+    }
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [typeCheck.diagnostics]);
+
+  // Source maps change with every preview reload
+  const locations = useMemo(
+    () => (preview.url ? createLocationResolver(preview.url) : null),
+    [preview.url, preview.revision]
+  );
+
+  useEffect(() => {
+    if (!locations) return;
+
+    // Locations resolve asynchronously; the queue keeps messages in order
+    let queue = Promise.resolve();
+    const handleMessage = (event: MessageEvent) => {
+      const data = event.data as PreviewConsoleMessage | null;
+      if (event.source !== iframeRef.current?.contentWindow || data?.source !== PREVIEW_CONSOLE_SOURCE) return;
+
+      queue = queue.then(async () => {
+        const location = await locations.resolveMessage(data, filesRef.current);
+        let error: PreviewRuntimeError | undefined;
+        if (data.kind !== 'console') {
+          error = {
+            id: nextErrorIdRef.current++,
+            message: data.message,
+            stack: data.stack ? await locations.mapStack(data.stack, filesRef.current) : undefined,
+            file: location?.file,
+            line: location?.line
+          };
+          setRuntimeError(error);
+        }
+        addToConsole(data.message, consoleTypeByLevel[data.level] ?? 'info', location ?? undefined, error);
+      });
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [locations]);
 
   const tabs = [
     { id: 'preview' as TabType, label: 'Preview', icon: Eye },
     { id: 'console' as TabType, label: 'Console', icon: Terminal },
-    { id: 'chat' as TabType, label: 'Chat', icon: MessageSquare }
+    { id: 'problems' as TabType, label: problemCount > 0 ? `Problems (${problemCount})` : 'Problems', icon: CircleAlert },
+    { id: 'chat' as TabType, label: 'Chat', icon: MessageSquare },
+    { id: 'history' as TabType, label: 'History', icon: History }
   ];
 
-  const handleRefreshPreview = () => {
-    // Force refresh the preview iframe
-    const iframe = document.getElementById('preview-iframe') as HTMLIFrameElement;
-    if (iframe) {
-      iframe.src = iframe.src;
-    }
-  };
 
   const handleClearConsole = () => {
     setConsoleOutput([
@@ -37,31 +162,83 @@ export default function RightPanel({ project, activeFile }: RightPanelProps) {
     ]);
   };
 
-  const addToConsole = (message: string, type: 'success' | 'error' | 'info' = 'info') => {
+  const addToConsole = (
+    message: string,
+    type: ConsoleEntryType = 'info',
+    location?: SourceLocation,
+    error?: PreviewRuntimeError
+  ) => {
     setConsoleOutput(prev => [...prev, {
       timestamp: new Date().toLocaleTimeString(),
       message,
-      type
-    }]);
+      type,
+      location,
+      error
+    }].slice(-MAX_CONSOLE_ENTRIES));
+  };
+
+  // Streamed files arrive in pieces: the first creates the file, later ones grow it
+  const handleFileGenerated = (fileName: string, content: string, language: string) => {
+    if (project.files[fileName]) {
+      onFileChange?.(fileName, content);
+    } else {
+      onFileCreate?.(fileName, content, language);
+    }
+  };
+
+  const handleFixWithAI = (error: PreviewRuntimeError) => {
+    setFixRequest(error);
+    setActiveTab('chat');
+  };
+
+  const handleTabChange = (tab: TabType) => {
+    setActiveTab(tab);
+    if (tab === 'preview') setPreviewStarted(true);
   };
 
   const renderPreviewContent = () => {
-    if (project.files['index.html']) {
-      const htmlContent = project.files['index.html'].content;
-      const blob = new Blob([htmlContent], { type: 'text/html' });
-      const url = URL.createObjectURL(blob);
-      
+    if (project.files['index.html'] && preview.signedOut) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-[var(--replit-text-dim)]">
+          <div className="text-center">
+            <Eye className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="mb-4">Sign in to preview your project</p>
+            <Button onClick={login} variant="outline" size="sm">Sign in</Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (project.files['index.html'] && preview.error) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-red-400 text-sm p-4">
+          Preview failed: {preview.error}
+        </div>
+      );
+    }
+
+    if (project.files['index.html'] && preview.src) {
       return (
         <div className="flex-1 bg-white m-4 rounded-lg overflow-hidden">
           <iframe
             id="preview-iframe"
-            src={url}
+            ref={iframeRef}
+            src={preview.src}
+            sandbox="allow-scripts allow-forms allow-popups allow-modals"
             className="w-full h-full border-none"
             title="Preview"
           />
         </div>
       );
     }
+
+    if (project.files['index.html']) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-[var(--replit-text-dim)]">
+          <RefreshCw className="h-6 w-6 animate-spin opacity-50" />
+        </div>
+      );
+    }
     
     return (
       <div className="flex-1 flex items-center justify-center text-[var(--replit-text-dim)]">
@@ -87,7 +264,7 @@ export default function RightPanel({ project, activeFile }: RightPanelProps) {
                 ? 'tab-button active bg-[var(--replit-hover)] border-[var(--replit-accent)]'
                 : 'hover:bg-[var(--replit-hover)]'
             }`}
-            onClick={() => setActiveTab(tab.id)}
+            onClick={() => handleTabChange(tab.id)}
           >
             <tab.icon className="mr-2 h-4 w-4" />
             {tab.label}
@@ -97,14 +274,27 @@ export default function RightPanel({ project, activeFile }: RightPanelProps) {
 
       {/* Tab Content */}
       <div className="flex-1 overflow-hidden">
-        {activeTab === 'preview' && (
-          <div className="h-full flex flex-col">
+        {previewStarted && (
+          <div className={activeTab === 'preview' ? 'h-full flex flex-col' : 'hidden'}>
             <div className="p-4 border-b border-[var(--replit-border)]">
               <div className="flex items-center justify-between">
-                <h3 className="font-semibold text-sm">Live Preview</h3>
-                <Button variant="ghost" size="icon" onClick={handleRefreshPreview}>
-                  <RefreshCw className="h-4 w-4" />
-                </Button>
+                <h3 className="font-semibold text-sm">
+                  Live Preview
+                  {livePaused && <span className="ml-2 text-xs font-normal text-yellow-400">Paused</span>}
+                </h3>
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setLivePaused(paused => !paused)}
+                    title={livePaused ? 'Resume live updates' : 'Pause live updates'}
+                  >
+                    {livePaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={preview.refresh} title="Reload with the current files">
+                    <RefreshCw className={`h-4 w-4 ${preview.isSyncing ? 'animate-spin' : ''}`} />
+                  </Button>
+                </div>
               </div>
             </div>
             {renderPreviewContent()}
@@ -125,22 +315,101 @@ export default function RightPanel({ project, activeFile }: RightPanelProps) {
               {consoleOutput.map((entry, index) => (
                 <div
                   key={index}
-                  className={`${
+                  className={`whitespace-pre-wrap break-words ${
                     entry.type === 'success' ? 'text-green-400' :
                     entry.type === 'error' ? 'text-red-400' :
+                    entry.type === 'warning' ? 'text-yellow-400' :
                     'text-[var(--replit-text-dim)]'
                   }`}
                 >
                   <span className="text-[var(--replit-text-dim)]">[{entry.timestamp}]</span> {entry.message}
+                  {entry.location && (
+                    <button
+                      type="button"
+                      className="ml-2 text-xs text-[var(--replit-accent)] hover:underline"
+                      onClick={() => onOpenFile?.(entry.location!)}
+                    >
+                      {formatLocation(entry.location)}
+                    </button>
+                  )}
+                  {entry.error && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-2 h-6 px-2 text-xs"
+                      onClick={() => handleFixWithAI(entry.error!)}
+                    >
+                      <Wand2 className="mr-1 h-3 w-3" />
+                      Fix with AI
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'problems' && (
+          <div className="h-full flex flex-col">
+            <div className="p-4 border-b border-[var(--replit-border)]">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-sm">Problems</h3>
+                {typeCheck.isChecking && <RefreshCw className="h-4 w-4 animate-spin text-[var(--replit-text-dim)]" />}
+              </div>
+            </div>
+            <div className="flex-1 p-4 overflow-y-auto font-mono text-sm space-y-3">
+              {problemsByFile.length === 0 && (
+                <div className="text-[var(--replit-text-dim)]">No problems in TypeScript or JavaScript files</div>
+              )}
+              {problemsByFile.map(([file, diagnostics]) => (
+                <div key={file}>
+                  <div className="text-xs font-semibold mb-1">
+                    {file} <span className="text-[var(--replit-text-dim)]">({diagnostics.length})</span>
+                  </div>
+                  {diagnostics.map((diagnostic, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      className="block w-full text-left pl-3 py-0.5 rounded hover:bg-[var(--replit-hover)] whitespace-pre-wrap break-words"
+                      onClick={() => onOpenFile?.({ file, line: diagnostic.line, column: diagnostic.column })}
+                    >
+                      <span className={
+                        diagnostic.severity === 'error' ? 'text-red-400' :
+                        diagnostic.severity === 'warning' ? 'text-yellow-400' :
+                        'text-[var(--replit-accent)]'
+                      }>
+                        {diagnostic.severity}
+                      </span>{' '}
+                      {diagnostic.message}
+                      <span className="ml-2 text-xs text-[var(--replit-text-dim)]">
+                        ts({diagnostic.code}) [{diagnostic.line}:{diagnostic.column}]
+                      </span>
+                    </button>
+                  ))}
                 </div>
               ))}
             </div>
           </div>
         )}
 
-        {activeTab === 'chat' && (
-          <ChatInterface 
+        {/* Kept mounted so the conversation and any running fix loop survive tab switches */}
+        <div className={activeTab === 'chat' ? 'h-full' : 'hidden'}>
+          <ChatInterface
+            project={project}
+            activeFile={activeFile}
+            onConsoleLog={addToConsole}
+            onFileGenerated={handleFileGenerated}
+            onFileUpdate={onFileChange}
+            onFileDeleted={onFileDelete}
+            runtimeError={runtimeError}
+            fixRequest={fixRequest}
+          />
+        </div>
+
+        {activeTab === 'history' && (
+          <VersionHistory
             project={project}
+            onRestore={files => onFilesRestored?.(files)}
             onConsoleLog={addToConsole}
           />
         )}
@@ -0,0 +1,58 @@
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Check, CloudOff, Loader2 } from 'lucide-react';
+import type { AutosaveConflict, AutosaveStatus } from '@/hooks/use-autosave';
+
+interface SaveStatusProps {
+  status: AutosaveStatus;
+  error: string | null;
+  conflict: AutosaveConflict | null;
+  onKeepLocalChanges: () => void;
+  onLoadServerCopy: () => void;
+}
+
+// Autosave state for the editor's tab bar, with the choices for a conflicting save
+export default function SaveStatus({ status, error, conflict, onKeepLocalChanges, onLoadServerCopy }: SaveStatusProps) {
+  if (conflict) {
+    return (
+      <div className="flex items-center gap-2 px-3 text-xs text-yellow-400">
+        <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+        <span className="whitespace-nowrap">Changed elsewhere since it was loaded</span>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onKeepLocalChanges}>
+          Keep mine
+        </Button>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onLoadServerCopy}>
+          Load theirs
+        </Button>
+      </div>
+    );
+  }
+
+  switch (status) {
+    case 'saving':
+      return (
+        <div className="flex items-center gap-1 px-3 text-xs text-[var(--replit-text-dim)]">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" /> Saving…
+        </div>
+      );
+    case 'saved':
+      return (
+        <div className="flex items-center gap-1 px-3 text-xs text-[var(--replit-text-dim)]">
+          <Check className="h-3.5 w-3.5" /> Saved
+        </div>
+      );
+    case 'offline':
+      return (
+        <div className="flex items-center gap-1 px-3 text-xs text-yellow-400" title="Changes are kept in this browser until the server is reachable">
+          <CloudOff className="h-3.5 w-3.5" /> Offline, saved locally
+        </div>
+      );
+    case 'error':
+      return (
+        <div className="flex items-center gap-1 px-3 text-xs text-red-400" title={error ?? undefined}>
+          <AlertTriangle className="h-3.5 w-3.5" /> Not saved, retrying
+        </div>
+      );
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,84 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Copy, ExternalLink, Share2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useProjectSharing } from '@/hooks/useSharing';
+import type { Project } from '@/lib/file-system';
+
+interface ShareDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Turns the project's public link on or off. The link shows the last saved
+// files read-only, with a live preview and a remix button.
+export default function ShareDialog({ project, open, onOpenChange }: ShareDialogProps) {
+  const { share, isLoading, setPublic, isUpdating } = useProjectSharing(project.id, open);
+  const { toast } = useToast();
+  const link = share?.isPublic && share.shareUrl ? new URL(share.shareUrl, window.location.origin).href : null;
+
+  const handleToggle = async (isPublic: boolean) => {
+    try {
+      await setPublic(isPublic);
+    } catch (error) {
+      toast({ title: 'Could not update sharing', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: 'Link copied' });
+    } catch (error) {
+      toast({ title: 'Could not copy link', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="w-4 h-4" />
+            Share {project.name}
+          </DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view the saved files, run the preview and remix a copy into their own account.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!project.id ? (
+          <p className="text-sm text-muted-foreground">The project can be shared once it has been saved.</p>
+        ) : (
+          <div className="space-y-3">
+            <label className="flex items-center justify-between text-sm">
+              <span>Public link</span>
+              <Switch
+                checked={!!share?.isPublic}
+                onCheckedChange={handleToggle}
+                disabled={isLoading || isUpdating}
+              />
+            </label>
+            {link && (
+              <div className="flex gap-2">
+                <Input readOnly value={link} className="text-xs" onFocus={e => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" size="icon" asChild title="Open link">
+                  <a href={link} target="_blank" rel="noreferrer">
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
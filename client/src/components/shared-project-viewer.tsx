@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from 'react';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { GitFork, Loader2, FileText } from 'lucide-react';
+import { createEditorState } from '@/lib/editor-setup';
+import { FOLDER_PLACEHOLDER, imageMimeType, isBinaryFile, type FileContent } from '@/lib/file-system';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useSharedProject } from '@/hooks/useSharing';
+
+interface SharedProjectViewerProps {
+  shareSlug: string;
+  // Called with the copy once a remix has been created in the viewer's account
+  onRemixed: (project: { id: string; name: string }) => void;
+}
+
+// Read-only CodeMirror view of one file
+function ReadOnlyCode({ fileName, file }: { fileName: string; file: FileContent }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: createEditorState(fileName, file.content, [EditorState.readOnly.of(true), EditorView.editable.of(false)])
+    });
+    return () => view.destroy();
+  }, [fileName, file]);
+
+  return <div ref={containerRef} className="h-full overflow-hidden" />;
+}
+
+// Public page for a shared project: its saved files read-only next to a live
+// preview, with a button that copies the project into the viewer's account
+export default function SharedProjectViewer({ shareSlug, onRemixed }: SharedProjectViewerProps) {
+  const { project, isLoading, error, remix, isRemixing } = useSharedProject(shareSlug);
+  const { isAuthenticated, login } = useAuth();
+  const { toast } = useToast();
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+
+  const fileNames = project ? Object.keys(project.files).filter(path => path.split('/').pop() !== FOLDER_PLACEHOLDER).sort() : [];
+  const activeFile = selectedFile && project?.files[selectedFile] ? selectedFile : fileNames.find(f => f === 'index.html') ?? fileNames[0] ?? null;
+
+  const handleRemix = async () => {
+    try {
+      const copy = await remix();
+      toast({ title: `Remixed into ${copy.name}` });
+      onRemixed(copy);
+    } catch (error) {
+      toast({ title: 'Could not remix project', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center bg-gray-900 text-gray-400">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!project) {
+    return (
+      <div className="flex h-full items-center justify-center bg-gray-900 text-gray-400">
+        {error ? (error as Error).message : 'Shared project not found'}
+      </div>
+    );
+  }
+
+  const ownerName = [project.owner?.firstName, project.owner?.lastName].filter(Boolean).join(' ');
+  const binaryFile = activeFile && isBinaryFile(project.files[activeFile]) ? activeFile : null;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900 text-white">
+      <div className="flex-shrink-0 flex items-center justify-between bg-gray-800 border-b border-gray-700 px-4 py-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <h1 className="text-lg font-semibold truncate">{project.name}</h1>
+            <Badge variant="secondary">{project.framework || project.language}</Badge>
+            <Badge variant="outline" className="text-gray-400">Read-only</Badge>
+          </div>
+          <p className="text-xs text-gray-400">
+            {ownerName ? `Shared by ${ownerName} · ` : ''}Updated {new Date(project.updatedAt).toLocaleString()}
+          </p>
+        </div>
+        {isAuthenticated ? (
+          <Button onClick={handleRemix} disabled={isRemixing} size="sm">
+            <GitFork className="w-4 h-4 mr-1" />
+            {isRemixing ? 'Remixing...' : 'Remix'}
+          </Button>
+        ) : (
+          <Button onClick={login} variant="outline" size="sm">Sign in to remix</Button>
+        )}
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        <div className="w-56 flex-shrink-0 overflow-y-auto border-r border-gray-700 py-2">
+          {fileNames.map(fileName => (
+            <button
+              key={fileName}
+              onClick={() => setSelectedFile(fileName)}
+              className={`flex w-full items-center gap-2 px-3 py-1 text-left text-sm truncate hover:bg-gray-800 ${
+                fileName === activeFile ? 'bg-gray-800 text-white' : 'text-gray-300'
+              }`}
+              title={fileName}
+            >
+              <FileText className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{fileName}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0 border-r border-gray-700">
+          {binaryFile ? (
+            <div className="flex h-full items-center justify-center p-4 text-sm text-gray-400">
+              {imageMimeType(binaryFile) ? (
+                <img
+                  src={`data:${imageMimeType(binaryFile)};base64,${project.files[binaryFile].content}`}
+                  alt={binaryFile}
+                  className="max-w-full max-h-full object-contain"
+                />
+              ) : (
+                'Binary file'
+              )}
+            </div>
+          ) : activeFile ? (
+            <ReadOnlyCode key={activeFile} fileName={activeFile} file={project.files[activeFile]} />
+          ) : (
+            <div className="flex h-full items-center justify-center text-sm text-gray-400">This project has no files</div>
+          )}
+        </div>
+
+        {/* The server also sandboxes the preview; the attribute covers browsers that ignore the CSP */}
+        <iframe
+          src={project.previewUrl}
+          title={`${project.name} preview`}
+          sandbox="allow-scripts allow-forms allow-popups allow-modals"
+          className="flex-1 min-w-0 bg-white"
+        />
+      </div>
+    </div>
+  );
+}
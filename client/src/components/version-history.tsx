@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { History, RotateCcw, Save, GitCompare, Bot, User } from 'lucide-react';
+import { FileChange } from './change-preview';
+import { useProjectVersions, useVersionComparison, type ProjectVersionSummary } from '@/hooks/useProjectVersions';
+import type { FileSetChange } from '@shared/diff';
+import type { FileContent, Project } from '@/lib/file-system';
+
+interface VersionHistoryProps {
+  project: Project;
+  onRestore: (files: Record<string, FileContent>) => void;
+  onConsoleLog: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+const statusActions = {
+  added: 'create',
+  removed: 'delete',
+  modified: 'update'
+} as const;
+
+const toFileChange = (change: FileSetChange) => ({
+  path: change.path,
+  action: statusActions[change.status],
+  language: 'text',
+  before: change.before,
+  after: change.after,
+  failedEdits: 0
+});
+
+const sourceIcons = {
+  ai: Bot,
+  manual: User,
+  restore: RotateCcw
+};
+
+// Lists saved versions of the project. Selecting one version diffs it against
+// the saved files; selecting two diffs the older against the newer.
+export default function VersionHistory({ project, onRestore, onConsoleLog }: VersionHistoryProps) {
+  const { versions, isLoading, saveVersion, restoreVersion, isSaving, isRestoring } = useProjectVersions(project.id);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const [fromId, toId] = [...selected].sort((a, b) => versionNumber(versions, a) - versionNumber(versions, b));
+  const comparison = useVersionComparison(project.id, fromId ?? null, toId);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev =>
+      prev.includes(id) ? prev.filter(v => v !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      const version = await saveVersion({ source: 'manual', label: 'Manual save', files: project.files });
+      onConsoleLog(`💾 Saved version ${version.version}`, 'success');
+    } catch (error) {
+      onConsoleLog(`❌ Failed to save version: ${(error as Error).message}`, 'error');
+    }
+  };
+
+  const handleRestore = async (version: ProjectVersionSummary) => {
+    try {
+      const restored = await restoreVersion(version.id);
+      onRestore(restored.files);
+      setSelected([]);
+      onConsoleLog(`⏪ Restored version ${version.version}`, 'success');
+    } catch (error) {
+      onConsoleLog(`❌ Failed to restore version ${version.version}: ${(error as Error).message}`, 'error');
+    }
+  };
+
+  if (!project.id) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-[var(--replit-text-dim)]">
+        <div className="text-center">
+          <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No history yet</p>
+          <p className="text-sm">Save the project to start recording versions</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-4 border-b border-[var(--replit-border)]">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-sm">History</h3>
+          <Button variant="ghost" size="sm" onClick={handleSave} disabled={isSaving}>
+            <Save className="h-4 w-4 mr-1" />
+            Save version
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {isLoading && <p className="text-sm text-[var(--replit-text-dim)]">Loading versions...</p>}
+        {!isLoading && versions.length === 0 && (
+          <p className="text-sm text-[var(--replit-text-dim)]">No versions saved yet</p>
+        )}
+
+        {versions.map(version => {
+          const SourceIcon = sourceIcons[version.source];
+          const isSelected = selected.includes(version.id);
+
+          return (
+            <div
+              key={version.id}
+              className={`flex items-center justify-between p-2 rounded-md border ${
+                isSelected ? 'border-[var(--replit-accent)] bg-[var(--replit-hover)]' : 'border-[var(--replit-border)]'
+              }`}
+            >
+              <div className="flex items-center space-x-2 min-w-0">
+                <Badge variant="outline" className="font-mono text-xs">v{version.version}</Badge>
+                <SourceIcon className="h-3 w-3 flex-shrink-0 text-[var(--replit-text-dim)]" />
+                <div className="min-w-0">
+                  <p className="text-sm truncate">{version.label || 'Untitled version'}</p>
+                  <p className="text-xs text-[var(--replit-text-dim)]">
+                    {new Date(version.createdAt).toLocaleString()} · {version.fileCount} file{version.fileCount === 1 ? '' : 's'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center flex-shrink-0">
+                <Button variant="ghost" size="icon" title="Compare" onClick={() => toggleSelected(version.id)}>
+                  <GitCompare className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Restore"
+                  disabled={isRestoring}
+                  onClick={() => handleRestore(version)}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+
+        {fromId && (
+          <div className="pt-2 space-y-2">
+            <p className="text-xs text-[var(--replit-text-dim)]">
+              Changes from v{versionNumber(versions, fromId)} to {toId ? `v${versionNumber(versions, toId)}` : 'saved files'}
+            </p>
+            {comparison.isLoading && <p className="text-sm text-[var(--replit-text-dim)]">Comparing...</p>}
+            {comparison.data?.changes.length === 0 && (
+              <p className="text-sm text-[var(--replit-text-dim)]">No differences</p>
+            )}
+            {comparison.data?.changes.map(change => (
+              <FileChange key={change.path} change={toFileChange(change)} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function versionNumber(versions: ProjectVersionSummary[], id: string): number {
+  return versions.find(version => version.id === id)?.version ?? 0;
+}
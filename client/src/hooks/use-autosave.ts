@@ -0,0 +1,194 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { diffFileSets } from '@shared/diff';
+import { Project, FileContent } from '@/lib/file-system';
+import { saveLocalCopy, deleteLocalCopy, type ServerBase } from '@/lib/project-store';
+
+const SAVE_DELAY_MS = 1000;
+const RETRY_DELAY_MS = 30_000;
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'offline' | 'error' | 'conflict';
+
+// The server copy changed since the editor last saw it, and differs from the editor's files
+export interface AutosaveConflict {
+  updatedAt: string;
+  files: Record<string, FileContent>;
+}
+
+interface AutosaveOptions {
+  // Key of the local copy while the project has no server id
+  draftKey: string;
+  // The first save of a draft created it on the server
+  onCreated: (id: string) => void;
+  // Loads the server copy over the editor's files when a conflict is resolved that way
+  onReplaceFiles: (files: Record<string, FileContent>) => void;
+}
+
+interface SavedProjectResponse {
+  id: string;
+  updatedAt: string;
+  files: Record<string, FileContent>;
+}
+
+// Other saves from this tab (AI versions, restores) report here, so the next
+// autosave does not mistake them for edits made elsewhere
+const serverSaveListeners = new Set<(projectId: string, base: ServerBase) => void>();
+
+export const recordServerSave = (projectId: string, updatedAt: string, files: Record<string, FileContent>) => {
+  serverSaveListeners.forEach(listener => listener(projectId, { updatedAt, files }));
+};
+
+class SaveConflictError extends Error {
+  constructor(public server: AutosaveConflict) {
+    super('Project was changed since it was loaded');
+  }
+}
+
+// Matches the language detection the server uses for imports, closely enough for a new project's label
+const guessLanguage = (paths: string[]) => {
+  if (paths.some(path => /\.tsx?$/.test(path))) return 'typescript';
+  if (paths.some(path => /\.(m?js|jsx)$/.test(path))) return 'javascript';
+  return 'html';
+};
+
+async function sendProject(project: Project, base: ServerBase | null): Promise<SavedProjectResponse> {
+  const response = await fetch(project.id ? `/api/projects/${project.id}` : '/api/projects', {
+    method: project.id ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(project.id
+      ? { files: project.files, baseUpdatedAt: base?.updatedAt ?? undefined, autosave: true }
+      : {
+          name: project.name,
+          prompt: localStorage.getItem('projectDescription') || project.name,
+          language: guessLanguage(Object.keys(project.files)),
+          files: project.files
+        })
+  });
+  const body = await response.json().catch(() => null);
+  if (response.status === 409 && body?.project) {
+    throw new SaveConflictError({ updatedAt: body.project.updatedAt, files: body.project.files });
+  }
+  if (!response.ok) throw new Error(body?.message || `Save failed with ${response.status}`);
+  return body;
+}
+
+// Saves the working project to the server shortly after every edit, with a
+// copy in IndexedDB that survives refreshes and covers offline periods.
+// Saves carry the updatedAt they started from, so edits made elsewhere in the
+// meantime surface as a conflict instead of being overwritten.
+export const useAutosave = (project: Project | null, options: AutosaveOptions) => {
+  // Last server copy the editor's files derive from; null for a project never saved
+  const [base, setBase] = useState<ServerBase | null>(null);
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<AutosaveConflict | null>(null);
+  const [retryToken, setRetryToken] = useState(0);
+  const savingRef = useRef(false);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const projectId = project?.id;
+
+  const dirtyFiles = useMemo(() => {
+    if (!project) return new Set<string>();
+    return new Set(Object.keys(project.files).filter(path => base?.files[path]?.content !== project.files[path].content));
+  }, [project, base]);
+
+  useEffect(() => {
+    const listener = (id: string, saved: ServerBase) => {
+      if (id === projectId && !savingRef.current) setBase(saved);
+    };
+    serverSaveListeners.add(listener);
+    return () => {
+      serverSaveListeners.delete(listener);
+    };
+  }, [projectId]);
+
+  useEffect(() => {
+    const retry = () => setRetryToken(token => token + 1);
+    window.addEventListener('online', retry);
+    return () => window.removeEventListener('online', retry);
+  }, []);
+
+  useEffect(() => {
+    if (!project || Object.keys(project.files).length === 0) return;
+    const changed = !base || diffFileSets(base.files, project.files).length > 0;
+    const key = project.id ?? optionsRef.current.draftKey;
+
+    const timer = setTimeout(async () => {
+      saveLocalCopy({ key, project, base, pendingSync: changed, savedAt: Date.now() })
+        .catch(error => console.error('Could not keep a local copy:', error));
+      if (!changed) {
+        setStatus(prev => (prev === 'saving' || prev === 'idle' ? 'saved' : prev));
+        return;
+      }
+      // An in-flight save updates the base when it lands, which schedules the next one
+      if (conflict || savingRef.current) return;
+
+      savingRef.current = true;
+      setStatus('saving');
+      try {
+        const saved = await sendProject(project, base);
+        setBase({ updatedAt: saved.updatedAt, files: project.files });
+        setStatus('saved');
+        setError(null);
+        if (!project.id) {
+          optionsRef.current.onCreated(saved.id);
+          deleteLocalCopy(key).catch(() => {});
+        }
+      } catch (error) {
+        if (error instanceof SaveConflictError) {
+          setConflict(error.server);
+          setStatus('conflict');
+        } else {
+          // fetch only rejects with a TypeError when the request never reached the server
+          setStatus(error instanceof TypeError || !navigator.onLine ? 'offline' : 'error');
+          setError((error as Error).message);
+        }
+      } finally {
+        savingRef.current = false;
+      }
+    }, SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [project, base, conflict, retryToken]);
+
+  // Failed saves are retried on a timer as well as when the browser comes back online
+  useEffect(() => {
+    if (status !== 'offline' && status !== 'error') return;
+    const timer = setTimeout(() => setRetryToken(token => token + 1), RETRY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [status, retryToken]);
+
+  // Starts tracking a freshly opened project; null for a new, unsaved one
+  const reset = useCallback((next: ServerBase | null) => {
+    setBase(next);
+    setConflict(null);
+    setError(null);
+    setStatus('idle');
+  }, []);
+
+  const keepLocalChanges = useCallback(() => {
+    if (!conflict) return;
+    // Saving on top of the server copy overwrites it with the editor's files
+    setBase(conflict);
+    setConflict(null);
+  }, [conflict]);
+
+  const loadServerCopy = useCallback(() => {
+    if (!conflict) return;
+    optionsRef.current.onReplaceFiles(conflict.files);
+    setBase(conflict);
+    setConflict(null);
+    setStatus('saved');
+  }, [conflict]);
+
+  return {
+    status,
+    error,
+    conflict,
+    dirtyFiles,
+    reset,
+    keepLocalChanges,
+    loadServerCopy
+  };
+};
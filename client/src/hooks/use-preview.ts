@@ -0,0 +1,92 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Project } from '@/lib/file-system';
+
+const SYNC_DELAY_MS = 400;
+
+interface PreviewState {
+  url: string | null;
+  // Bumped after every sync that needs a reload, so the iframe reloads with the new files
+  revision: number;
+  error: string | null;
+  // Previews are hosted per user, so a signed-out editor gets a sign-in prompt instead
+  signedOut: boolean;
+  isSyncing: boolean;
+}
+
+interface PreviewOptions {
+  // Holds edits back from the preview; the latest files go out on resume
+  paused?: boolean;
+  // Applies stylesheet-only edits without a reload; returns false when it could not
+  onStylesheetsChanged?: (paths: string[]) => boolean;
+}
+
+// Mirrors the editor's files to a server-hosted preview under /preview/:id/:accessKey/, so
+// relative links, scripts and src/ imports resolve like they would when deployed
+export const usePreview = (project: Project | null, options: PreviewOptions = {}) => {
+  const draftIdRef = useRef(`draft_${Math.random().toString(36).slice(2, 12)}`);
+  const previewId = project?.id ?? draftIdRef.current;
+  const [state, setState] = useState<PreviewState>({ url: null, revision: 0, error: null, signedOut: false, isSyncing: false });
+  // refresh() bumps the token; a sync for a new token runs even while paused and always reloads
+  const [refreshToken, setRefreshToken] = useState(0);
+  const syncedTokenRef = useRef(0);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const { paused = false } = options;
+
+  useEffect(() => {
+    if (!project || Object.keys(project.files).length === 0) return;
+    const forced = refreshToken !== syncedTokenRef.current;
+    if (paused && !forced) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setState(prev => ({ ...prev, isSyncing: true }));
+      try {
+        const response = await fetch(`/api/previews/${encodeURIComponent(previewId)}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ files: project.files }),
+          signal: controller.signal
+        });
+        if (response.status === 401) {
+          setState(prev => ({ ...prev, url: null, error: null, signedOut: true, isSyncing: false }));
+          return;
+        }
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.message || `Preview failed with ${response.status}`);
+        syncedTokenRef.current = refreshToken;
+
+        const changed: string[] = body.changed ?? [];
+        const stylesheetsOnly = changed.length > 0 && body.removed === 0 && changed.every(path => path.endsWith('.css'));
+        const hotSwapped = !forced && stylesheetsOnly && (optionsRef.current.onStylesheetsChanged?.(changed) ?? false);
+        const reload = forced || (changed.length > 0 && !hotSwapped);
+
+        setState(prev => ({
+          url: body.url,
+          revision: reload ? prev.revision + 1 : prev.revision,
+          error: null,
+          signedOut: false,
+          isSyncing: false
+        }));
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') return;
+        setState(prev => ({ ...prev, error: (error as Error).message, isSyncing: false }));
+      }
+    }, forced ? 0 : SYNC_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [project, previewId, paused, refreshToken]);
+
+  // Pushes the current files and reloads the page, paused or not
+  const refresh = useCallback(() => setRefreshToken(token => token + 1), []);
+
+  return {
+    ...state,
+    src: state.url ? `${state.url}?v=${state.revision}` : null,
+    refresh
+  };
+};
@@ -1,10 +1,60 @@
-import { useState, useCallback } from 'react';
-import { Project, FileContent, createDefaultProject } from '@/lib/file-system';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Project, FileContent, createDefaultProject, FOLDER_PLACEHOLDER, joinPath, parentFolder } from '@/lib/file-system';
+import { loadLastLocalCopy, loadLocalCopy } from '@/lib/project-store';
+import { useAutosave } from '@/hooks/use-autosave';
+
+// A project as the server returns it
+export interface ServerProject {
+  id: string;
+  name: string;
+  updatedAt: string;
+  files: Record<string, FileContent>;
+}
+
+const newDraftKey = () => `draft_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+export interface EditorLocation {
+  file: string;
+  line: number;
+  column?: number;
+}
 
 export const useProject = () => {
   const [project, setProject] = useState<Project | null>(null);
   const [activeFile, setActiveFile] = useState<string | null>(null);
   const [openFiles, setOpenFiles] = useState<string[]>(['index.html']);
+  // Line the editor should jump to, e.g. from a preview console message
+  const [revealLocation, setRevealLocation] = useState<EditorLocation | null>(null);
+  const projectRef = useRef(project);
+  projectRef.current = project;
+  // Local copy key until the first save gives the project a server id
+  const draftKeyRef = useRef(newDraftKey());
+
+  const autosave = useAutosave(project, {
+    draftKey: draftKeyRef.current,
+    onCreated: id => setProject(prev => prev && { ...prev, id }),
+    onReplaceFiles: files => replaceFiles(files)
+  });
+  const resetAutosave = autosave.reset;
+
+  // Reopens the working copy kept in the browser after a refresh
+  useEffect(() => {
+    let cancelled = false;
+    loadLastLocalCopy()
+      .then(copy => {
+        if (cancelled || !copy || projectRef.current) return;
+        if (!copy.project.id) draftKeyRef.current = copy.key;
+        const firstFile = Object.keys(copy.project.files)[0] ?? null;
+        setProject(copy.project);
+        setOpenFiles(firstFile ? [firstFile] : []);
+        setActiveFile(firstFile);
+        resetAutosave(copy.base);
+      })
+      .catch(error => console.error('Could not load the local project copy:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [resetAutosave]);
 
   const createProject = useCallback((name: string, description?: string) => {
     const newProject = createDefaultProject(name);
@@ -12,10 +62,26 @@ export const useProject = () => {
       // Store the description for AI context
       localStorage.setItem('projectDescription', description);
     }
+    draftKeyRef.current = newDraftKey();
+    resetAutosave(null);
     setProject(newProject);
     setActiveFile(Object.keys(newProject.files)[0]);
     return newProject;
-  }, []);
+  }, [resetAutosave]);
+
+  // Loads a saved project from the server into the editor. Edits from an earlier
+  // session that never reached the server are restored on top; the save that
+  // follows checks them against the server copy they started from.
+  const openProject = useCallback(async (saved: ServerProject) => {
+    const copy = await loadLocalCopy(saved.id).catch(() => undefined);
+    const unsynced = copy?.pendingSync ? copy : null;
+    const files = unsynced?.project.files ?? saved.files;
+    const firstFile = Object.keys(files)[0] ?? null;
+    resetAutosave(unsynced ? unsynced.base : { updatedAt: saved.updatedAt, files: saved.files });
+    setProject({ id: saved.id, name: saved.name, files });
+    setOpenFiles(firstFile ? [firstFile] : []);
+    setActiveFile(firstFile);
+  }, [resetAutosave]);
 
   const updateFileContent = useCallback((fileName: string, content: string) => {
     if (!project) return;
@@ -33,13 +99,32 @@ export const useProject = () => {
 
   const createFile = useCallback((fileName: string, content: string = '', type: string = 'text') => {
     if (!project || project.files[fileName]) return;
+    setProject(prev => {
+      const newFiles = { ...prev!.files, [fileName]: { content, type } };
+      // The folder is no longer empty
+      const placeholder = joinPath(parentFolder(fileName), FOLDER_PLACEHOLDER);
+      if (placeholder !== fileName) delete newFiles[placeholder];
+      return { ...prev!, files: newFiles };
+    });
+  }, [project]);
+
+  // Renames or moves a file, or a folder with everything in it. Open tabs follow
+  // the move; nothing happens if any target path is taken.
+  const renamePath = useCallback((from: string, to: string) => {
+    if (!project || from === to) return;
+    const moves = Object.keys(project.files)
+      .filter(path => path === from || path.startsWith(`${from}/`))
+      .map(path => [path, to + path.slice(from.length)] as const);
+    if (moves.length === 0 || moves.some(([, target]) => project.files[target])) return;
+
+    const renamed = new Map(moves);
+    const rename = (path: string) => renamed.get(path) ?? path;
     setProject(prev => ({
       ...prev!,
-      files: {
-        ...prev!.files,
-        [fileName]: { content, type }
-      }
+      files: Object.fromEntries(Object.entries(prev!.files).map(([path, file]) => [rename(path), file]))
     }));
+    setOpenFiles(prev => prev.map(rename));
+    setActiveFile(prev => prev && rename(prev));
   }, [project]);
 
   const deleteFile = useCallback((fileName: string) => {
@@ -56,6 +141,27 @@ export const useProject = () => {
     }
   }, [project, activeFile]);
 
+  const deleteFolder = useCallback((folder: string) => {
+    if (!project) return;
+    const inFolder = (path: string) => path.startsWith(`${folder}/`);
+    setProject(prev => ({
+      ...prev!,
+      files: Object.fromEntries(Object.entries(prev!.files).filter(([path]) => !inFolder(path)))
+    }));
+    setOpenFiles(prev => prev.filter(f => !inFolder(f)));
+    if (activeFile && inFolder(activeFile)) {
+      const remainingFiles = Object.keys(project.files).filter(f => !inFolder(f));
+      setActiveFile(remainingFiles[0] || null);
+    }
+  }, [project, activeFile]);
+
+  // Swaps in a whole file set, e.g. after restoring a saved version
+  const replaceFiles = useCallback((files: Record<string, FileContent>) => {
+    setProject(prev => prev && { ...prev, files });
+    setOpenFiles(prev => prev.filter(f => files[f]));
+    setActiveFile(prev => (prev && files[prev] ? prev : Object.keys(files)[0] || null));
+  }, []);
+
   const openFile = useCallback((fileName: string) => {
     if (!openFiles.includes(fileName)) {
       setOpenFiles(prev => [...prev, fileName]);
@@ -63,6 +169,12 @@ export const useProject = () => {
     setActiveFile(fileName);
   }, [openFiles]);
 
+  const openFileAt = useCallback((location: EditorLocation) => {
+    openFile(location.file);
+    // A fresh object every time, so clicking the same location again still jumps
+    setRevealLocation({ ...location });
+  }, [openFile]);
+
   const closeFile = useCallback((fileName: string) => {
     setOpenFiles(prev => prev.filter(f => f !== fileName));
     if (activeFile === fileName) {
@@ -76,10 +188,17 @@ export const useProject = () => {
     activeFile,
     openFiles,
     createProject,
+    openProject,
+    autosave,
     updateFileContent,
     createFile,
+    renamePath,
     deleteFile,
+    deleteFolder,
+    replaceFiles,
     openFile,
+    openFileAt,
+    revealLocation,
     closeFile,
     setActiveFile
   };
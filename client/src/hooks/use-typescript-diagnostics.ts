@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { FileContent } from '@/lib/file-system';
+import { isScriptFile, type TsDiagnostic } from '@/lib/ts-language-service';
+import { typescriptService } from '@/lib/typescript-client';
+
+const CHECK_DELAY_MS = 600;
+
+// Type-checks the whole project in the TypeScript worker after edits settle.
+// Projects without script files never start the worker.
+export const useTypeScriptDiagnostics = (files: Record<string, FileContent>) => {
+  const [diagnostics, setDiagnostics] = useState<TsDiagnostic[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    if (!Object.keys(files).some(isScriptFile)) {
+      setDiagnostics([]);
+      setIsChecking(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsChecking(true);
+      try {
+        const contents = Object.fromEntries(Object.entries(files).map(([path, file]) => [path, file.content]));
+        await typescriptService.setFiles(contents);
+        const results = await typescriptService.allDiagnostics();
+        if (!cancelled) setDiagnostics(results);
+      } catch (error) {
+        console.error('Type check failed:', error);
+      } finally {
+        if (!cancelled) setIsChecking(false);
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [files]);
+
+  return { diagnostics, isChecking };
+};
@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ApiTokenScope, CreateApiTokenInput } from '@shared/schema';
+
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+// Only the create response carries the token itself
+export type CreatedApiToken = ApiTokenSummary & { token: string };
+
+const TOKENS_KEY = ['/api/tokens'];
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    credentials: 'include',
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `${response.status} ${response.statusText}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export function useApiTokens(enabled = true) {
+  const queryClient = useQueryClient();
+
+  const tokensQuery = useQuery({
+    queryKey: TOKENS_KEY,
+    queryFn: () => fetchJson<ApiTokenSummary[]>('/api/tokens'),
+    enabled,
+    retry: false,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: TOKENS_KEY });
+
+  const createTokenMutation = useMutation({
+    mutationFn: (data: CreateApiTokenInput) =>
+      fetchJson<CreatedApiToken>('/api/tokens', { method: 'POST', body: JSON.stringify(data) }),
+    onSuccess: invalidate,
+  });
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: (id: string) => fetchJson<void>(`/api/tokens/${id}`, { method: 'DELETE' }),
+    onSuccess: invalidate,
+  });
+
+  return {
+    tokens: tokensQuery.data ?? [],
+    isLoading: tokensQuery.isLoading,
+    error: tokensQuery.error,
+    createToken: createTokenMutation.mutateAsync,
+    revokeToken: revokeTokenMutation.mutateAsync,
+    isCreating: createTokenMutation.isPending,
+    isRevoking: revokeTokenMutation.isPending,
+  };
+}
@@ -1,14 +1,76 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback } from "react";
+import type { User } from "@shared/schema";
+
+type AuthProvider = "local" | "replit" | "oidc" | "dev";
+
+// Signed-out visitors get null rather than an error
+async function fetchUser(): Promise<User | null> {
+  const response = await fetch("/api/auth/user", { credentials: "include" });
+  if (response.status === 401) return null;
+  if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
+  return response.json();
+}
+
+async function fetchProviders(): Promise<AuthProvider[]> {
+  const response = await fetch("/api/auth/providers");
+  if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
+  return (await response.json()).providers;
+}
+
+// Posts to one of the local account routes; they answer with the signed-in user
+async function postAuth(path: string, body: Record<string, unknown>): Promise<User> {
+  const response = await fetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(result?.message || `${response.status}: ${response.statusText}`);
+  return result;
+}
 
 export function useAuth() {
+  const queryClient = useQueryClient();
   const { data: user, isLoading } = useQuery({
     queryKey: ["/api/auth/user"],
+    queryFn: fetchUser,
     retry: false,
   });
+  const { data: providers = [] } = useQuery({
+    queryKey: ["/api/auth/providers"],
+    queryFn: fetchProviders,
+    staleTime: Infinity,
+  });
+
+  const signedIn = useCallback(
+    (signedInUser: User) => queryClient.setQueryData(["/api/auth/user"], signedInUser),
+    [queryClient]
+  );
 
   return {
-    user,
+    user: user ?? null,
     isLoading,
     isAuthenticated: !!user,
+    providers,
+    // Full-page navigations: sign-in goes through a redirect, and signing out drops every cached query
+    login: () => window.location.assign("/api/login"),
+    logout: () => window.location.assign("/api/logout"),
+    // Local accounts sign in without leaving the page
+    loginWithPassword: (email: string, password: string) =>
+      postAuth("/api/auth/login", { email, password }).then(signedIn),
+    signup: (details: { email: string; password: string; firstName?: string; lastName?: string }) =>
+      postAuth("/api/auth/signup", details).then(signedIn),
+    requestPasswordReset: async (email: string) => {
+      const response = await fetch("/api/auth/password-reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
+    },
+    resetPassword: (token: string, password: string) =>
+      postAuth("/api/auth/password-reset/confirm", { token, password }).then(signedIn),
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { FileSetChange } from '@shared/diff';
+import type { VersionSource } from '@shared/schema';
+import type { FileContent } from '@/lib/file-system';
+import { recordServerSave } from '@/hooks/use-autosave';
+
+export interface ProjectVersionSummary {
+  id: string;
+  projectId: string;
+  version: number;
+  source: VersionSource;
+  label: string | null;
+  fileCount: number;
+  createdAt: string;
+}
+
+export interface VersionComparison {
+  from: ProjectVersionSummary;
+  to: ProjectVersionSummary | null;
+  changes: FileSetChange[];
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    credentials: 'include',
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `${response.status} ${response.statusText}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export function useProjectVersions(projectId: string | undefined) {
+  const queryClient = useQueryClient();
+  const versionsKey = [`/api/projects/${projectId}/versions`];
+
+  const versionsQuery = useQuery({
+    queryKey: versionsKey,
+    queryFn: () => fetchJson<ProjectVersionSummary[]>(`/api/projects/${projectId}/versions`),
+    enabled: !!projectId,
+    retry: false,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: versionsKey });
+
+  // Saves the given files as the project's contents and snapshots them
+  const saveVersionMutation = useMutation({
+    mutationFn: (data: { source: VersionSource; label?: string; files?: Record<string, FileContent> }) =>
+      fetchJson<ProjectVersionSummary & { projectUpdatedAt: string }>(`/api/projects/${projectId}/versions`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    onSuccess: (version, data) => {
+      if (projectId && data.files) recordServerSave(projectId, version.projectUpdatedAt, data.files);
+      invalidate();
+    },
+  });
+
+  const restoreVersionMutation = useMutation({
+    mutationFn: (versionId: string) =>
+      fetchJson<{ files: Record<string, FileContent>; updatedAt: string }>(`/api/projects/${projectId}/versions/${versionId}/restore`, {
+        method: 'POST',
+      }),
+    onSuccess: restored => {
+      if (projectId) recordServerSave(projectId, restored.updatedAt, restored.files);
+      invalidate();
+    },
+  });
+
+  return {
+    versions: versionsQuery.data || [],
+    isLoading: versionsQuery.isLoading,
+    error: versionsQuery.error,
+    saveVersion: saveVersionMutation.mutateAsync,
+    restoreVersion: restoreVersionMutation.mutateAsync,
+    isSaving: saveVersionMutation.isPending,
+    isRestoring: restoreVersionMutation.isPending,
+  };
+}
+
+// Compares two versions, or one version against the saved files when toId is omitted
+export function useVersionComparison(projectId: string | undefined, fromId: string | null, toId?: string | null) {
+  const params = new URLSearchParams();
+  if (fromId) params.set('from', fromId);
+  if (toId) params.set('to', toId);
+  const url = `/api/projects/${projectId}/versions/compare?${params}`;
+
+  return useQuery({
+    queryKey: [url],
+    queryFn: () => fetchJson<VersionComparison>(url),
+    enabled: !!projectId && !!fromId,
+    retry: false,
+  });
+}
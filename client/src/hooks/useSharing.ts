@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { FileContent } from '@/lib/file-system';
+
+export interface ProjectShareInfo {
+  isPublic: boolean;
+  shareSlug: string | null;
+  shareUrl: string | null;
+  previewUrl: string | null;
+}
+
+// What anyone with the link sees of a shared project
+export interface SharedProject {
+  name: string;
+  description: string | null;
+  language: string;
+  framework: string | null;
+  updatedAt: string;
+  shareSlug: string;
+  previewUrl: string;
+  owner: { firstName: string | null; lastName: string | null; profileImageUrl: string | null } | null;
+  files: Record<string, FileContent>;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    credentials: 'include',
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Sharing state of one of the signed-in user's projects
+export function useProjectSharing(projectId: string | undefined, enabled = true) {
+  const queryClient = useQueryClient();
+  const shareKey = [`/api/projects/${projectId}/share`];
+
+  const shareQuery = useQuery({
+    queryKey: shareKey,
+    queryFn: () => fetchJson<ProjectShareInfo>(`/api/projects/${projectId}/share`),
+    enabled: enabled && !!projectId,
+    retry: false,
+  });
+
+  const setPublicMutation = useMutation({
+    mutationFn: (isPublic: boolean) =>
+      fetchJson<ProjectShareInfo>(`/api/projects/${projectId}/share`, {
+        method: 'PUT',
+        body: JSON.stringify({ isPublic }),
+      }),
+    onSuccess: info => queryClient.setQueryData(shareKey, info),
+  });
+
+  return {
+    share: shareQuery.data ?? null,
+    isLoading: shareQuery.isLoading,
+    error: shareQuery.error,
+    setPublic: setPublicMutation.mutateAsync,
+    isUpdating: setPublicMutation.isPending,
+  };
+}
+
+// A shared project by its link slug, and remixing it into the signed-in user's account
+export function useSharedProject(shareSlug: string) {
+  const queryClient = useQueryClient();
+
+  const sharedQuery = useQuery({
+    queryKey: [`/api/share/${shareSlug}`],
+    queryFn: () => fetchJson<SharedProject>(`/api/share/${encodeURIComponent(shareSlug)}`),
+    retry: false,
+  });
+
+  const remixMutation = useMutation({
+    mutationFn: () =>
+      fetchJson<{ id: string; name: string }>(`/api/share/${encodeURIComponent(shareSlug)}/remix`, { method: 'POST' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/projects'] }),
+  });
+
+  return {
+    project: sharedQuery.data ?? null,
+    isLoading: sharedQuery.isLoading,
+    error: sharedQuery.error,
+    remix: remixMutation.mutateAsync,
+    isRemixing: remixMutation.isPending,
+  };
+}
@@ -0,0 +1,102 @@
+import { EditorState, type Extension } from '@codemirror/state';
+import {
+  EditorView,
+  keymap,
+  lineNumbers,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  drawSelection,
+  dropCursor,
+  rectangularSelection,
+  crosshairCursor
+} from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import {
+  bracketMatching,
+  foldGutter,
+  foldKeymap,
+  indentOnInput,
+  syntaxHighlighting,
+  defaultHighlightStyle,
+  StreamLanguage
+} from '@codemirror/language';
+import { search, searchKeymap, highlightSelectionMatches } from '@codemirror/search';
+import { autocompletion, closeBrackets, closeBracketsKeymap, completionKeymap } from '@codemirror/autocomplete';
+import { javascript } from '@codemirror/lang-javascript';
+import { html } from '@codemirror/lang-html';
+import { css } from '@codemirror/lang-css';
+import { json } from '@codemirror/lang-json';
+import { python } from '@codemirror/lang-python';
+import { markdown } from '@codemirror/lang-markdown';
+import { yaml } from '@codemirror/lang-yaml';
+import { sql } from '@codemirror/lang-sql';
+import { shell } from '@codemirror/legacy-modes/mode/shell';
+import { oneDark } from '@codemirror/theme-one-dark';
+
+// CodeMirror setup for the project editor: highlighting for every language the
+// generator emits, search/replace, bracket matching, folding and multiple
+// cursors (Alt-drag for a rectangle, Mod-d for the next occurrence).
+
+export const languageForFile = (fileName: string): Extension => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'js': case 'mjs': case 'cjs': return javascript();
+    case 'jsx': return javascript({ jsx: true });
+    case 'ts': case 'mts': case 'cts': return javascript({ typescript: true });
+    case 'tsx': return javascript({ jsx: true, typescript: true });
+    case 'html': case 'htm': case 'vue': case 'svelte': return html();
+    case 'css': case 'scss': case 'less': return css();
+    case 'json': return json();
+    case 'py': return python();
+    case 'md': case 'markdown': return markdown();
+    case 'yml': case 'yaml': return yaml();
+    case 'sql': return sql();
+    case 'sh': case 'bash': case 'zsh': return StreamLanguage.define(shell);
+    default: return [];
+  }
+};
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', backgroundColor: 'var(--replit-bg)' },
+  '.cm-scroller': { fontFamily: "'Monaco', 'Menlo', 'Ubuntu Mono', monospace", fontSize: '14px', lineHeight: '1.5' },
+  '.cm-gutters': { backgroundColor: 'var(--replit-bg)', borderRight: '1px solid var(--replit-border)' }
+}, { dark: true });
+
+export const createEditorState = (fileName: string, content: string, extensions: Extension[] = []) =>
+  EditorState.create({
+    doc: content,
+    extensions: [
+      lineNumbers(),
+      highlightActiveLineGutter(),
+      highlightSpecialChars(),
+      history(),
+      foldGutter(),
+      drawSelection(),
+      dropCursor(),
+      EditorState.allowMultipleSelections.of(true),
+      indentOnInput(),
+      syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+      bracketMatching(),
+      closeBrackets(),
+      autocompletion(),
+      rectangularSelection(),
+      crosshairCursor(),
+      highlightActiveLine(),
+      highlightSelectionMatches(),
+      search({ top: true }),
+      keymap.of([
+        ...closeBracketsKeymap,
+        ...defaultKeymap,
+        ...searchKeymap,
+        ...historyKeymap,
+        ...foldKeymap,
+        ...completionKeymap,
+        indentWithTab
+      ]),
+      oneDark,
+      editorTheme,
+      languageForFile(fileName),
+      ...extensions
+    ]
+  });
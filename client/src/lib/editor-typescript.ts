@@ -0,0 +1,124 @@
+import type { Extension } from '@codemirror/state';
+import { EditorState } from '@codemirror/state';
+import { EditorView, hoverTooltip, keymap } from '@codemirror/view';
+import { linter, lintGutter, type Diagnostic } from '@codemirror/lint';
+import type { CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import { isScriptFile } from './ts-language-service';
+import { typescriptService } from './typescript-client';
+import type { EditorLocation } from '@/hooks/use-project';
+
+// Editor features backed by the TypeScript worker: squiggles, hover types,
+// completions and go-to-definition (F12). Mod-click is left to multi-cursor.
+
+const completionTypes: Record<string, string> = {
+  function: 'function',
+  'local function': 'function',
+  method: 'method',
+  class: 'class',
+  interface: 'interface',
+  enum: 'enum',
+  type: 'type',
+  module: 'namespace',
+  keyword: 'keyword',
+  const: 'constant',
+  let: 'variable',
+  var: 'variable',
+  'local var': 'variable',
+  parameter: 'variable',
+  alias: 'variable',
+  property: 'property',
+  getter: 'property',
+  setter: 'property'
+};
+
+const hoverTheme = EditorView.baseTheme({
+  '.cm-ts-hover': { padding: '4px 8px', maxWidth: '600px', fontSize: '12px' },
+  '.cm-ts-hover pre': { margin: 0, whiteSpace: 'pre-wrap', fontFamily: "'Monaco', 'Menlo', 'Ubuntu Mono', monospace" },
+  '.cm-ts-hover p': { margin: '4px 0 0', opacity: 0.8 }
+});
+
+export const typescriptExtensions = (
+  fileName: string,
+  onOpenLocation?: (location: EditorLocation) => void
+): Extension[] => {
+  if (!isScriptFile(fileName)) return [];
+
+  const diagnostics = linter(async view => {
+    const doc = view.state.doc;
+    const results = await typescriptService.diagnostics(fileName, doc.toString()).catch(() => []);
+    return results
+      .filter(result => result.file === fileName && result.from <= doc.length)
+      .map((result): Diagnostic => ({
+        from: result.from,
+        to: Math.min(Math.max(result.to, result.from + 1), doc.length),
+        severity: result.severity,
+        message: result.message,
+        source: `ts(${result.code})`
+      }));
+  }, { delay: 500 });
+
+  const hover = hoverTooltip(async (view, pos) => {
+    const info = await typescriptService.quickInfo(fileName, view.state.doc.toString(), pos).catch(() => null);
+    if (!info) return null;
+    return {
+      pos: info.from,
+      end: info.to,
+      above: true,
+      create: () => {
+        const dom = document.createElement('div');
+        dom.className = 'cm-ts-hover';
+        const signature = document.createElement('pre');
+        signature.textContent = info.signature;
+        dom.appendChild(signature);
+        if (info.documentation) {
+          const documentation = document.createElement('p');
+          documentation.textContent = info.documentation;
+          dom.appendChild(documentation);
+        }
+        return { dom };
+      }
+    };
+  });
+
+  const completions = async (context: CompletionContext): Promise<CompletionResult | null> => {
+    const word = context.matchBefore(/[\w$]*/);
+    const afterDot = context.state.sliceDoc(context.pos - 1, context.pos) === '.';
+    if (!context.explicit && !afterDot && (!word || word.from === word.to)) return null;
+
+    const result = await typescriptService.completions(fileName, context.state.doc.toString(), context.pos).catch(() => null);
+    if (!result || context.aborted) return null;
+    return {
+      from: result.from,
+      options: result.entries.map(entry => ({
+        label: entry.name,
+        type: completionTypes[entry.kind],
+        // TypeScript ranks by sortText; lower sorts first
+        boost: -Number.parseInt(entry.sortText, 10) || 0
+      })),
+      validFor: /^[\w$]*$/
+    };
+  };
+
+  const goToDefinition = (view: EditorView) => {
+    const offset = view.state.selection.main.head;
+    typescriptService.definition(fileName, view.state.doc.toString(), offset).then(definition => {
+      if (!definition) return;
+      if (definition.file !== fileName) {
+        onOpenLocation?.({ file: definition.file, line: definition.line, column: definition.column });
+        return;
+      }
+      const position = Math.min(definition.from, view.state.doc.length);
+      view.dispatch({ selection: { anchor: position }, effects: EditorView.scrollIntoView(position, { y: 'center' }) });
+    }).catch(() => {});
+    return true;
+  };
+
+  return [
+    diagnostics,
+    lintGutter(),
+    hover,
+    hoverTheme,
+    EditorState.languageData.of(() => [{ autocomplete: completions }]),
+    keymap.of([{ key: 'F12', run: goToDefinition }])
+  ];
+};
@@ -4,6 +4,8 @@ export interface FileContent {
 }
 
 export interface Project {
+  // Set once the project has been saved to the server
+  id?: string;
   name: string;
   files: Record<string, FileContent>;
 }
@@ -26,3 +28,52 @@ export const createDefaultProject = (name: string): Project => ({
   name,
   files: {}
 });
+
+// Uploaded images and other non-text assets are stored base64-encoded under
+// this type; the preview server writes them back out as raw bytes
+export const BINARY_FILE_TYPE = 'binary';
+
+// Keeps an otherwise empty folder in the flat file map; hidden in the explorer
+export const FOLDER_PLACEHOLDER = '.gitkeep';
+
+// Larger files would bloat every save and version snapshot
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = new Set([
+  'html', 'htm', 'css', 'scss', 'less', 'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'mts', 'cts',
+  'json', 'md', 'markdown', 'txt', 'svg', 'xml', 'csv', 'yml', 'yaml', 'py', 'vue', 'svelte', 'env'
+]);
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  bmp: 'image/bmp'
+};
+
+export const isBinaryFile = (file: FileContent | undefined) => file?.type === BINARY_FILE_TYPE;
+
+export const imageMimeType = (path: string): string | null =>
+  MIME_TYPES[path.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+
+export const parentFolder = (path: string) => path.split('/').slice(0, -1).join('/');
+
+export const joinPath = (folder: string, name: string) => (folder ? `${folder}/${name}` : name);
+
+// Reads a file picked or dropped from the user's machine into a project file
+export const readLocalFile = async (file: File): Promise<FileContent> => {
+  const ext = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.has(ext)) {
+    return { content: await file.text(), type: 'text' };
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return { content: btoa(binary), type: BINARY_FILE_TYPE };
+};
@@ -0,0 +1,38 @@
+import type { GenerationEvent } from '@shared/generation';
+
+// Parses the SSE body of /api/claude-proxy/stream into typed events.
+// EventSource only supports GET, so the stream is read off a fetch response.
+export async function* readGenerationEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<GenerationEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const data = frame
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+
+        if (data) {
+          yield JSON.parse(data) as GenerationEvent;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    // Stops the download if the consumer bailed out early
+    reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,93 @@
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping';
+import { parseStackFrames, type PreviewConsoleMessage, type PreviewScriptLocation } from '@shared/preview-console';
+import type { RuntimeError } from '@shared/generation';
+import { FileContent } from './file-system';
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+// An uncaught error thrown by the preview; every occurrence gets a new id
+export interface PreviewRuntimeError extends RuntimeError {
+  id: number;
+}
+
+// Bundled TypeScript/JSX entries are served with a source map next to them
+const BUNDLED_EXTENSION = /\.(ts|tsx|jsx|mts)$/;
+
+// Maps script URLs reported by the preview at `previewUrl` back to project
+// files. Source maps are cached, so create a new resolver whenever the preview
+// reloads with new files.
+export const createLocationResolver = (previewUrl: string) => {
+  const base = new URL(previewUrl, window.location.origin).href;
+  const sourceMaps = new Map<string, Promise<TraceMap | null>>();
+
+  const toProjectPath = (url: string) => {
+    const clean = url.split(/[?#]/)[0];
+    if (!clean.startsWith(base)) return null;
+    const path = decodeURIComponent(clean.slice(base.length));
+    return path === '' || path.endsWith('/') ? `${path}index.html` : path;
+  };
+
+  const loadSourceMap = (url: string) => {
+    let sourceMap = sourceMaps.get(url);
+    if (!sourceMap) {
+      sourceMap = fetch(`${url}.map`, { credentials: 'include' })
+        .then(response => (response.ok ? response.text() : null))
+        .then(text => (text ? new TraceMap(text, `${url}.map`) : null))
+        .catch(() => null);
+      sourceMaps.set(url, sourceMap);
+    }
+    return sourceMap;
+  };
+
+  const resolveLocation = async (
+    location: PreviewScriptLocation,
+    files: Record<string, FileContent>
+  ): Promise<SourceLocation | null> => {
+    const url = location.url.split(/[?#]/)[0];
+    const file = toProjectPath(url);
+    if (!file || !files[file]) return null;
+    if (!BUNDLED_EXTENSION.test(file)) {
+      return { file, line: location.line, column: location.column };
+    }
+
+    const sourceMap = await loadSourceMap(url);
+    if (!sourceMap) return null;
+    // Browsers report 1-based columns, source maps use 0-based ones
+    const original = originalPositionFor(sourceMap, { line: location.line, column: Math.max(0, location.column - 1) });
+    const source = original.source && toProjectPath(original.source);
+    if (!source || !files[source] || original.line === null) return null;
+    return { file: source, line: original.line, column: original.column + 1 };
+  };
+
+  // The reported location first, then the first stack frame inside the project
+  // (errors thrown from library code point at the CDN, not at project files)
+  const resolveMessage = async (message: PreviewConsoleMessage, files: Record<string, FileContent>) => {
+    const candidates = [
+      ...(message.location ? [message.location] : []),
+      ...(message.stack ? parseStackFrames(message.stack) : [])
+    ];
+    for (const candidate of candidates) {
+      const location = await resolveLocation(candidate, files);
+      if (location) return location;
+    }
+    return null;
+  };
+
+  // Rewrites bundle URLs in a stack trace to project file locations
+  const mapStack = async (stack: string, files: Record<string, FileContent>) => {
+    const lines = await Promise.all(stack.split('\n').map(async line => {
+      const [frame] = parseStackFrames(line);
+      const location = frame && await resolveLocation(frame, files);
+      return location ? line.replace(`${frame.url}:${frame.line}:${frame.column}`, formatLocation(location)) : line;
+    }));
+    return lines.join('\n');
+  };
+
+  return { resolveMessage, mapStack };
+};
+
+export const formatLocation = (location: SourceLocation) => `${location.file}:${location.line}:${location.column}`;
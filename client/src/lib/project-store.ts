@@ -0,0 +1,69 @@
+import type { Project, FileContent } from './file-system';
+
+// Browser-side copy of the working project in IndexedDB. Edits are mirrored
+// here before they go to the server, so a refresh or a failed save never loses
+// work; copies still waiting for the server are flagged as such.
+
+// The server copy a working project was loaded from or last saved as
+export interface ServerBase {
+  updatedAt: string;
+  files: Record<string, FileContent>;
+}
+
+export interface LocalProjectCopy {
+  // Server project id, or the draft key of a project that was never saved
+  key: string;
+  project: Project;
+  // Server copy the edits started from; null if the project was never saved
+  base: ServerBase | null;
+  // The server has not seen these edits yet
+  pendingSync: boolean;
+  savedAt: number;
+}
+
+const DB_NAME = 'ai-editor';
+const STORE = 'projects';
+// Which copy to reopen after a refresh
+const LAST_KEY = 'lastProjectKey';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'key' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveLocalCopy = async (copy: LocalProjectCopy) => {
+  await run('readwrite', store => store.put(copy));
+  localStorage.setItem(LAST_KEY, copy.key);
+};
+
+export const loadLocalCopy = (key: string) =>
+  run<LocalProjectCopy | undefined>('readonly', store => store.get(key));
+
+export const deleteLocalCopy = async (key: string) => {
+  await run('readwrite', store => store.delete(key));
+  if (localStorage.getItem(LAST_KEY) === key) localStorage.removeItem(LAST_KEY);
+};
+
+export const loadLastLocalCopy = async () => {
+  const key = localStorage.getItem(LAST_KEY);
+  return key ? loadLocalCopy(key) : undefined;
+};
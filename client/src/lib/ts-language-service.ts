@@ -0,0 +1,229 @@
+import ts from 'typescript';
+
+// TypeScript language service over a project's in-memory files. It has no
+// DOM dependencies and runs inside the editor's web worker
+// (see workers/typescript.worker.ts). Project paths such as "src/App.tsx" live
+// at the root of the virtual file system; the standard library comes from
+// TypeScript's own lib.*.d.ts files, handed in by the caller.
+
+export interface TsDiagnostic {
+  file: string;
+  from: number;
+  to: number;
+  line: number;
+  column: number;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  code: number;
+}
+
+export interface TsQuickInfo {
+  from: number;
+  to: number;
+  signature: string;
+  documentation: string;
+}
+
+export interface TsDefinition {
+  file: string;
+  from: number;
+  line: number;
+  column: number;
+}
+
+export interface TsCompletions {
+  from: number;
+  entries: { name: string; kind: string; sortText: string }[];
+}
+
+const LIB_DIR = '/__lib/';
+const SHIM_FILE = '/__shims.d.ts';
+
+// The standard library the preview targets: ES2020 in a browser
+export const ROOT_LIB_FILES = ['lib.es2020.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'];
+
+// Packages are loaded from a CDN at runtime, so their types are not available:
+// every package the project imports is declared as an untyped module, and JSX
+// elements accept any props. Missing project files are still reported.
+const buildShims = (packages: string[]) => [
+  'declare namespace JSX {',
+  '  interface IntrinsicElements { [name: string]: any }',
+  '}',
+  ...packages.map(name => `declare module ${JSON.stringify(name)};`)
+].join('\n');
+
+const isProjectImport = (name: string) => /^(\.{1,2}\/|\/|@\/)/.test(name);
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ROOT_LIB_FILES,
+  strict: true,
+  allowJs: true,
+  noEmit: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  resolveJsonModule: true,
+  allowImportingTsExtensions: true,
+  isolatedModules: true,
+  // Same "@/..." alias the generated Vite projects use
+  baseUrl: '/',
+  paths: { '@/*': ['src/*'] }
+};
+
+export const isScriptFile = (path: string) => /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/.test(path);
+
+// Loads the lib files the root ones pull in through /// <reference lib="..." />
+export async function loadLibFiles(load: (fileName: string) => Promise<string | undefined>) {
+  const libs = new Map<string, string>();
+  const queue = [...ROOT_LIB_FILES];
+  while (queue.length > 0) {
+    const fileName = queue.shift()!;
+    if (libs.has(fileName)) continue;
+    const text = await load(fileName);
+    if (text === undefined) continue;
+    libs.set(fileName, text);
+    for (const match of Array.from(text.matchAll(/\/\/\/\s*<reference\s+lib="([^"]+)"/g))) {
+      queue.push(`lib.${match[1].toLowerCase()}.d.ts`);
+    }
+  }
+  return libs;
+}
+
+export function createProjectLanguageService(libs: Map<string, string>) {
+  const files = new Map<string, { content: string; version: number; packages: string[] }>();
+  let shims = { content: buildShims(['react/jsx-runtime']), version: 1 };
+  const toVirtual = (path: string) => `/${path.replace(/^\/+/, '')}`;
+  const toProject = (fileName: string) => fileName.replace(/^\/+/, '');
+
+  const readFile = (fileName: string): string | undefined => {
+    if (fileName === SHIM_FILE) return shims.content;
+    if (fileName.startsWith(LIB_DIR)) return libs.get(fileName.slice(LIB_DIR.length));
+    return files.get(fileName)?.content;
+  };
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => COMPILER_OPTIONS,
+    getScriptFileNames: () => [...Array.from(files.keys()).filter(isScriptFile), SHIM_FILE],
+    getScriptVersion: fileName => String(fileName === SHIM_FILE ? shims.version : files.get(fileName)?.version ?? 0),
+    getScriptSnapshot: fileName => {
+      const text = readFile(fileName);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => '/',
+    getDefaultLibFileName: () => `${LIB_DIR}lib.d.ts`,
+    fileExists: fileName => readFile(fileName) !== undefined,
+    readFile,
+    directoryExists: directory => {
+      const prefix = directory.endsWith('/') ? directory : `${directory}/`;
+      return directory === '/' || prefix === LIB_DIR || Array.from(files.keys()).some(fileName => fileName.startsWith(prefix));
+    },
+    getDirectories: () => []
+  };
+
+  const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+  const updateShims = () => {
+    const packages = new Set(['react/jsx-runtime']);
+    files.forEach(file => file.packages.forEach(name => packages.add(name)));
+    const content = buildShims(Array.from(packages).sort());
+    if (content !== shims.content) shims = { content, version: shims.version + 1 };
+  };
+
+  const setFile = (path: string, content: string) => {
+    const fileName = toVirtual(path);
+    const existing = files.get(fileName);
+    if (existing?.content === content) return;
+    const packages = isScriptFile(fileName)
+      ? ts.preProcessFile(content, true, true).importedFiles.map(file => file.fileName).filter(name => !isProjectImport(name))
+      : [];
+    files.set(fileName, { content, version: (existing?.version ?? 0) + 1, packages });
+    updateShims();
+  };
+
+  const position = (fileName: string, offset: number) =>
+    service.getProgram()?.getSourceFile(fileName)?.getLineAndCharacterOfPosition(offset) ?? { line: 0, character: 0 };
+
+  const toDiagnostic = (diagnostic: ts.Diagnostic): TsDiagnostic | null => {
+    if (!diagnostic.file || diagnostic.start === undefined) return null;
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return {
+      file: toProject(diagnostic.file.fileName),
+      from: diagnostic.start,
+      to: diagnostic.start + (diagnostic.length ?? 0),
+      line: line + 1,
+      column: character + 1,
+      severity: diagnostic.category === ts.DiagnosticCategory.Error ? 'error'
+        : diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning'
+        : 'info',
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      code: diagnostic.code
+    };
+  };
+
+  const getDiagnostics = (path: string): TsDiagnostic[] => {
+    const fileName = toVirtual(path);
+    if (!files.has(fileName) || !isScriptFile(fileName)) return [];
+    return [...service.getSyntacticDiagnostics(fileName), ...service.getSemanticDiagnostics(fileName)]
+      .map(toDiagnostic)
+      .filter((diagnostic): diagnostic is TsDiagnostic => diagnostic !== null);
+  };
+
+  return {
+    // Replaces the whole project; files missing from `projectFiles` are dropped
+    setFiles(projectFiles: Record<string, string>) {
+      const wanted = new Set(Object.keys(projectFiles).map(toVirtual));
+      for (const fileName of Array.from(files.keys())) {
+        if (!wanted.has(fileName)) files.delete(fileName);
+      }
+      for (const [path, content] of Object.entries(projectFiles)) setFile(path, content);
+      updateShims();
+    },
+
+    setFile,
+    getDiagnostics,
+
+    getAllDiagnostics(): TsDiagnostic[] {
+      return Array.from(files.keys())
+        .filter(isScriptFile)
+        .flatMap(fileName => getDiagnostics(fileName));
+    },
+
+    getQuickInfo(path: string, offset: number): TsQuickInfo | null {
+      const info = service.getQuickInfoAtPosition(toVirtual(path), offset);
+      if (!info) return null;
+      return {
+        from: info.textSpan.start,
+        to: info.textSpan.start + info.textSpan.length,
+        signature: ts.displayPartsToString(info.displayParts),
+        documentation: ts.displayPartsToString(info.documentation)
+      };
+    },
+
+    getDefinition(path: string, offset: number): TsDefinition | null {
+      const definition = service
+        .getDefinitionAtPosition(toVirtual(path), offset)
+        ?.find(entry => files.has(entry.fileName));
+      if (!definition) return null;
+      const { line, character } = position(definition.fileName, definition.textSpan.start);
+      return { file: toProject(definition.fileName), from: definition.textSpan.start, line: line + 1, column: character + 1 };
+    },
+
+    getCompletions(path: string, offset: number): TsCompletions | null {
+      const fileName = toVirtual(path);
+      const completions = service.getCompletionsAtPosition(fileName, offset, {});
+      if (!completions) return null;
+      const text = files.get(fileName)?.content ?? '';
+      let from = offset;
+      while (from > 0 && /[\w$]/.test(text[from - 1])) from--;
+      return {
+        from,
+        entries: completions.entries.slice(0, 500).map(entry => ({ name: entry.name, kind: entry.kind, sortText: entry.sortText }))
+      };
+    }
+  };
+}
+
+export type ProjectLanguageService = ReturnType<typeof createProjectLanguageService>;
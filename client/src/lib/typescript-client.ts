@@ -0,0 +1,46 @@
+import type { TsCompletions, TsDefinition, TsDiagnostic, TsQuickInfo } from './ts-language-service';
+
+// Main-thread side of the TypeScript worker. The worker starts on first use
+// and is shared by every editor tab and the Problems panel.
+
+export type TsRequest =
+  | { type: 'setFiles'; files: Record<string, string> }
+  | { type: 'allDiagnostics' }
+  | { type: 'diagnostics'; file: string; content: string }
+  | { type: 'quickInfo' | 'definition' | 'completions'; file: string; content: string; offset: number };
+
+export type TsWorkerMessage = { id: number; result: unknown } | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }>();
+
+const request = <T>(message: TsRequest): Promise<T> => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/typescript.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<TsWorkerMessage>) => {
+      const handlers = pending.get(event.data.id);
+      pending.delete(event.data.id);
+      if ('error' in event.data) handlers?.reject(new Error(event.data.error));
+      else handlers?.resolve(event.data.result);
+    };
+  }
+
+  const id = nextId++;
+  return new Promise<T>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    worker!.postMessage({ id, request: message });
+  });
+};
+
+export const typescriptService = {
+  setFiles: (files: Record<string, string>) => request<null>({ type: 'setFiles', files }),
+  allDiagnostics: () => request<TsDiagnostic[]>({ type: 'allDiagnostics' }),
+  diagnostics: (file: string, content: string) => request<TsDiagnostic[]>({ type: 'diagnostics', file, content }),
+  quickInfo: (file: string, content: string, offset: number) =>
+    request<TsQuickInfo | null>({ type: 'quickInfo', file, content, offset }),
+  definition: (file: string, content: string, offset: number) =>
+    request<TsDefinition | null>({ type: 'definition', file, content, offset }),
+  completions: (file: string, content: string, offset: number) =>
+    request<TsCompletions | null>({ type: 'completions', file, content, offset })
+};
@@ -0,0 +1,49 @@
+import {
+  createProjectLanguageService,
+  loadLibFiles,
+  type ProjectLanguageService
+} from '@/lib/ts-language-service';
+import type { TsRequest, TsWorkerMessage } from '@/lib/typescript-client';
+
+// Web worker hosting the TypeScript language service, so type checking never
+// blocks typing. Requests are answered in the order they arrive.
+
+const LIB_PATH = '../../../node_modules/typescript/lib/';
+const libLoaders = import.meta.glob('../../../node_modules/typescript/lib/lib.*.d.ts', {
+  query: '?raw',
+  import: 'default'
+}) as Record<string, () => Promise<string>>;
+
+const scope = self as unknown as {
+  postMessage(message: TsWorkerMessage): void;
+  onmessage: ((event: MessageEvent<{ id: number; request: TsRequest }>) => void) | null;
+};
+
+const ready = loadLibFiles(async fileName => libLoaders[`${LIB_PATH}${fileName}`]?.()).then(createProjectLanguageService);
+
+const handle = (service: ProjectLanguageService, request: TsRequest) => {
+  if (request.type === 'setFiles') return service.setFiles(request.files);
+  if (request.type === 'allDiagnostics') return service.getAllDiagnostics();
+
+  // Per-file requests carry the editor's current text, which may be ahead of the project
+  service.setFile(request.file, request.content);
+  switch (request.type) {
+    case 'diagnostics': return service.getDiagnostics(request.file);
+    case 'quickInfo': return service.getQuickInfo(request.file, request.offset);
+    case 'definition': return service.getDefinition(request.file, request.offset);
+    case 'completions': return service.getCompletions(request.file, request.offset);
+  }
+};
+
+let queue = Promise.resolve();
+scope.onmessage = event => {
+  const { id, request } = event.data;
+  queue = queue.then(async () => {
+    try {
+      const result = handle(await ready, request);
+      scope.postMessage({ id, result: result ?? null });
+    } catch (error) {
+      scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+};
@@ -0,0 +1,163 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  signupSchema,
+  loginSchema,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import type { SessionUser } from "./auth";
+
+// Email/password sign-in for self-hosted installs without an identity provider
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Stored as "scrypt:<salt>:<hash>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Reset tokens are only stored hashed, so a leaked table cannot be used to take over accounts
+const hashResetToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+// Local sessions have no tokens and never expire on their own; the cookie does
+const localSessionUser = (user: User): SessionUser => ({
+  id: user.id,
+  provider: "local",
+  expires_at: Number.MAX_SAFE_INTEGER,
+});
+
+function signIn(req: Request, user: User) {
+  return new Promise<void>((resolve, reject) =>
+    req.login(localSessionUser(user), (error) => (error ? reject(error) : resolve()))
+  );
+}
+
+export function setupLocalAuth(app: Express) {
+  passport.use(
+    "local",
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email.trim().toLowerCase());
+        const passwordHash = user && (await storage.getPasswordHash(user.id));
+        if (!user || !passwordHash || !(await verifyPassword(password, passwordHash))) {
+          return done(null, false);
+        }
+        done(null, localSessionUser(user));
+      } catch (error) {
+        done(error);
+      }
+    })
+  );
+
+  app.post("/api/auth/signup", async (req, res) => {
+    try {
+      const parsed = signupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      const { email, password, firstName, lastName } = parsed.data;
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+
+      const user = await storage.upsertUser({
+        id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        email,
+        firstName,
+        lastName,
+      });
+      await storage.setPasswordHash(user.id, await hashPassword(password));
+      await signIn(req, user);
+      res.status(201).json(user);
+    } catch (error) {
+      console.error("Error signing up:", error);
+      res.status(500).json({ message: "Failed to sign up" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    req.body = parsed.data;
+    passport.authenticate("local", (error: unknown, sessionUser: SessionUser | false) => {
+      if (error) return next(error);
+      if (!sessionUser) {
+        return res.status(401).json({ message: "Invalid email or password" });
+      }
+      req.login(sessionUser, async (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(await storage.getUser(sessionUser.id));
+      });
+    })(req, res, next);
+  });
+
+  // Always answers the same way, so the route cannot be used to probe for accounts
+  app.post("/api/auth/password-reset", async (req, res) => {
+    try {
+      const parsed = passwordResetRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const user = await storage.getUserByEmail(parsed.data.email);
+      if (user && (await storage.getPasswordHash(user.id))) {
+        const token = randomBytes(32).toString("base64url");
+        await storage.createPasswordResetToken({
+          tokenHash: hashResetToken(token),
+          userId: user.id,
+          expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+        });
+        // There is no mail service; the link goes to the server log for the operator to pass on
+        const link = `${req.protocol}://${req.get("host")}/reset-password?token=${token}`;
+        console.log(`🔑 Password reset for ${user.email}: ${link}`);
+      }
+      res.status(202).json({ message: "If an account exists for this email, a reset link is on its way" });
+    } catch (error) {
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  app.post("/api/auth/password-reset/confirm", async (req, res) => {
+    try {
+      const parsed = passwordResetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const userId = await storage.consumePasswordResetToken(hashResetToken(parsed.data.token));
+      const user = userId && (await storage.getUser(userId));
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+      await storage.setPasswordHash(user.id, await hashPassword(parsed.data.password));
+      await signIn(req, user);
+      res.json(user);
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+}
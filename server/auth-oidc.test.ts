@@ -0,0 +1,177 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// Sign-in against a mock OIDC issuer: discovery, the authorization redirect,
+// the code exchange with a signed ID token, and the end-session redirect
+
+const CLIENT_ID = "test-client";
+const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const listen = (app: express.Express) =>
+  new Promise<Server>((resolve) => {
+    const server = app.listen(0, () => resolve(server));
+  });
+const portOf = (server: Server) => (server.address() as AddressInfo).port;
+
+function signIdToken(claims: Record<string, unknown>) {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const input = `${encode({ alg: "RS256", typ: "JWT", kid: "test-key" })}.${encode(claims)}`;
+  return `${input}.${crypto.sign("sha256", Buffer.from(input), privateKey).toString("base64url")}`;
+}
+
+// Signs in whoever `nextIdentity` names, without a login page
+function createMockIssuer(getIssuer: () => string) {
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+  const codes = new Map<string, { nonce?: string; sub: string; email: string }>();
+
+  app.get("/.well-known/openid-configuration", (_req, res) => {
+    const issuer = getIssuer();
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      end_session_endpoint: `${issuer}/logout`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+    });
+  });
+
+  app.get("/jwks", (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "test-key", alg: "RS256", use: "sig" }] });
+  });
+
+  app.get("/authorize", (req, res) => {
+    const code = crypto.randomUUID();
+    codes.set(code, { nonce: req.query.nonce as string | undefined, ...mockIssuer.nextIdentity });
+    const callback = new URL(req.query.redirect_uri as string);
+    callback.searchParams.set("code", code);
+    if (req.query.state) callback.searchParams.set("state", req.query.state as string);
+    res.redirect(callback.href);
+  });
+
+  app.post("/token", (req, res) => {
+    const grant = codes.get(req.body.code);
+    codes.delete(req.body.code);
+    if (!grant) return res.status(400).json({ error: "invalid_grant" });
+    const now = Math.floor(Date.now() / 1000);
+    res.json({
+      access_token: crypto.randomUUID(),
+      token_type: "Bearer",
+      expires_in: 3600,
+      id_token: signIdToken({
+        iss: getIssuer(),
+        aud: CLIENT_ID,
+        sub: grant.sub,
+        email: grant.email,
+        iat: now,
+        exp: now + 3600,
+        ...(grant.nonce && { nonce: grant.nonce }),
+      }),
+    });
+  });
+
+  const mockIssuer = { app, nextIdentity: { sub: "ada", email: "ada@example.com" } };
+  return mockIssuer;
+}
+
+let appServer: Server;
+let issuerServer: Server;
+let appUrl: string;
+let issuerUrl: string;
+const mockIssuer = createMockIssuer(() => issuerUrl);
+let storage: typeof import("./storage").storage;
+
+before(async () => {
+  issuerServer = await listen(mockIssuer.app);
+  issuerUrl = `http://127.0.0.1:${portOf(issuerServer)}`;
+
+  const app = express();
+  appServer = await listen(app);
+  appUrl = `http://localhost:${portOf(appServer)}`;
+
+  // Read when the auth and storage modules load
+  process.env.STORAGE = "memory";
+  process.env.AUTH_PROVIDERS = "oidc";
+  process.env.OIDC_ISSUER_URL = issuerUrl;
+  process.env.OIDC_CLIENT_ID = CLIENT_ID;
+  process.env.OIDC_CLIENT_SECRET = "test-secret";
+  process.env.REPLIT_DOMAINS = `localhost:${portOf(appServer)}`;
+  process.env.SESSION_SECRET = "test-session-secret";
+
+  const auth = await import("./auth");
+  ({ storage } = await import("./storage"));
+  await auth.setupAuth(app);
+  app.get("/me", auth.isAuthenticated, (req, res) => res.json({ id: auth.getUserId(req) }));
+});
+
+after(() => {
+  appServer.close();
+  issuerServer.close();
+});
+
+const cookieOf = (response: Response) => response.headers.get("set-cookie")?.split(";")[0];
+
+// Follows the login redirects through the issuer and back, carrying the session cookie
+async function signIn() {
+  const login = await fetch(`${appUrl}/api/auth/oidc/login`, { redirect: "manual" });
+  assert.equal(login.status, 302);
+  const cookie = cookieOf(login)!;
+  const authorize = new URL(login.headers.get("location")!);
+  assert.equal(authorize.origin, issuerUrl);
+  assert.equal(authorize.searchParams.get("client_id"), CLIENT_ID);
+
+  const issuerRedirect = await fetch(authorize, { redirect: "manual" });
+  const callback = await fetch(issuerRedirect.headers.get("location")!, { redirect: "manual", headers: { cookie } });
+  return { callback, cookie: cookieOf(callback) ?? cookie };
+}
+
+test("signs in through the issuer and stores the user", async () => {
+  mockIssuer.nextIdentity = { sub: "ada", email: "ada@example.com" };
+  const { callback, cookie } = await signIn();
+  assert.equal(callback.status, 302);
+  assert.equal(callback.headers.get("location"), "/");
+
+  const me = await fetch(`${appUrl}/me`, { headers: { cookie } });
+  assert.deepEqual(await me.json(), { id: "oidc:ada" });
+  assert.equal((await storage.getUser("oidc:ada"))?.email, "ada@example.com");
+});
+
+test("rejects a callback that comes without the session started at login", async () => {
+  const login = await fetch(`${appUrl}/api/auth/oidc/login`, { redirect: "manual" });
+  const issuerRedirect = await fetch(login.headers.get("location")!, { redirect: "manual" });
+  // No session cookie, so the state stored at login is not found
+  const callback = await fetch(issuerRedirect.headers.get("location")!, { redirect: "manual" });
+  assert.notEqual(callback.status, 200);
+  assert.equal((await fetch(`${appUrl}/me`, { headers: { cookie: cookieOf(callback) ?? "" } })).status, 401);
+});
+
+test("refuses an issuer identity whose email belongs to another account", async () => {
+  await storage.upsertUser({ id: "user_local", email: "grace@example.com" });
+  mockIssuer.nextIdentity = { sub: "grace", email: "grace@example.com" };
+
+  const { callback } = await signIn();
+  assert.equal(callback.status, 409);
+  assert.match(await callback.text(), /already used by another account/);
+  assert.equal(await storage.getUser("oidc:grace"), undefined);
+});
+
+test("signs out of the app and sends the browser to the issuer's end-session endpoint", async () => {
+  mockIssuer.nextIdentity = { sub: "ada", email: "ada@example.com" };
+  const { cookie } = await signIn();
+
+  const logout = await fetch(`${appUrl}/api/logout`, { redirect: "manual", headers: { cookie } });
+  assert.equal(logout.status, 302);
+  const endSession = new URL(logout.headers.get("location")!);
+  assert.equal(`${endSession.origin}${endSession.pathname}`, `${issuerUrl}/logout`);
+  assert.equal(endSession.searchParams.get("post_logout_redirect_uri"), appUrl);
+
+  assert.equal((await fetch(`${appUrl}/me`, { headers: { cookie } })).status, 401);
+});
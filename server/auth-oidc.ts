@@ -0,0 +1,150 @@
+import * as client from "openid-client";
+import { Strategy, type VerifyFunction } from "openid-client/passport";
+import passport from "passport";
+import type { Express, NextFunction, Request, Response } from "express";
+import memoize from "memoizee";
+import type { UpsertUser } from "@shared/schema";
+import { storage } from "./storage";
+import type { SessionUser } from "./auth";
+
+// OpenID Connect sign-in, shared by Replit's issuer and any self-hosted one
+// (Keycloak, Authentik, Auth0, ...) configured by issuer URL
+
+export interface OidcProviderOptions {
+  // Session provider name, also the prefix of the per-host passport strategies
+  name: SessionUser["provider"];
+  issuerUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+  loginPath: string;
+  callbackPath: string;
+  // Hosts the app is served on; each gets a strategy so the callback returns to the same host
+  domains: string[];
+  authorizationParams?: Record<string, string>;
+  // Maps ID token claims to the stored user
+  toUser: (claims: client.IDToken) => UpsertUser;
+}
+
+// The issuer's email belongs to another account, e.g. a local one. Accounts are
+// not linked by email, since that would hand the account to whoever controls
+// the email at the issuer.
+export class EmailInUseError extends Error {
+  constructor(email: string) {
+    super(`${email} is already used by another account. Sign in the way that account was created.`);
+  }
+}
+
+const configs = new Map<string, () => Promise<client.Configuration>>();
+
+// Plain http is only accepted for issuers on this machine, e.g. a mock server in development
+const isLocalIssuer = (url: URL) =>
+  url.protocol === "http:" && ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+
+function updateUserSession(
+  user: SessionUser,
+  tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
+) {
+  const claims = tokens.claims();
+  user.claims = claims;
+  user.access_token = tokens.access_token;
+  user.refresh_token = tokens.refresh_token ?? user.refresh_token;
+  user.expires_at = claims?.exp;
+}
+
+export async function setupOidcProvider(app: Express, options: OidcProviderOptions) {
+  const issuer = new URL(options.issuerUrl);
+  const getConfig = memoize(
+    () =>
+      client.discovery(issuer, options.clientId, options.clientSecret, undefined, {
+        execute: isLocalIssuer(issuer) ? [client.allowInsecureRequests] : [],
+      }),
+    { maxAge: 3600 * 1000, promise: true }
+  );
+  configs.set(options.name, getConfig);
+  const config = await getConfig();
+
+  const verify: VerifyFunction = async (
+    tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
+    verified: passport.AuthenticateCallback
+  ) => {
+    try {
+      const userData = options.toUser(tokens.claims()!);
+      const sameEmail = userData.email ? await storage.getUserByEmail(userData.email) : undefined;
+      if (sameEmail && sameEmail.id !== userData.id) {
+        throw new EmailInUseError(userData.email!);
+      }
+      const user = await storage.upsertUser(userData);
+      const sessionUser: SessionUser = { id: user.id, provider: options.name };
+      updateUserSession(sessionUser, tokens);
+      verified(null, sessionUser);
+    } catch (error) {
+      verified(error);
+    }
+  };
+
+  for (const domain of options.domains) {
+    const strategy = new Strategy(
+      {
+        name: `${options.name}:${domain}`,
+        config,
+        scope: options.scopes.join(" "),
+        callbackURL: `${domain.includes('localhost') ? 'http' : 'https'}://${domain}${options.callbackPath}`,
+      },
+      verify,
+    );
+    passport.use(strategy);
+  }
+
+  // Strategies are keyed by host, with or without the port as listed in the domains
+  const strategyName = (req: Request) => {
+    const host = req.get("host");
+    return `${options.name}:${host && options.domains.includes(host) ? host : req.hostname}`;
+  };
+
+  app.get(options.loginPath, (req, res, next) => {
+    passport.authenticate(strategyName(req), {
+      ...options.authorizationParams,
+      scope: options.scopes,
+    })(req, res, next);
+  });
+
+  app.get(
+    options.callbackPath,
+    (req: Request, res: Response, next: NextFunction) => {
+      passport.authenticate(strategyName(req), {
+        successReturnToOrRedirect: "/",
+        failureRedirect: options.loginPath,
+      })(req, res, next);
+    },
+    (error: unknown, _req: Request, res: Response, next: NextFunction) => {
+      if (!(error instanceof EmailInUseError)) return next(error);
+      res.status(409).send(error.message);
+    },
+  );
+}
+
+// Swaps an expired session's tokens for fresh ones; false if that is not possible
+export async function refreshOidcSession(user: SessionUser): Promise<boolean> {
+  const getConfig = configs.get(user.provider);
+  if (!getConfig || !user.refresh_token) return false;
+  try {
+    const tokens = await client.refreshTokenGrant(await getConfig(), user.refresh_token);
+    updateUserSession(user, tokens);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Where to send the browser to end the issuer's session too, if it supports that
+export async function oidcLogoutUrl(user: SessionUser, returnTo: string): Promise<string | null> {
+  const getConfig = configs.get(user.provider);
+  if (!getConfig) return null;
+  const config = await getConfig();
+  if (!config.serverMetadata().end_session_endpoint) return null;
+  return client.buildEndSessionUrl(config, {
+    client_id: config.clientMetadata().client_id,
+    post_logout_redirect_uri: returnTo,
+  }).href;
+}
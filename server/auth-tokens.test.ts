@@ -0,0 +1,125 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { ApiTokenScope } from "@shared/schema";
+import { ScriptedProvider, setProviderOverride } from "./llm";
+
+// API token scopes: what each scope opens up, and the routes no token reaches
+
+let server: Server;
+let baseUrl: string;
+let cookie: string;
+let projectId: string;
+
+before(async () => {
+  // Read when the auth and storage modules load
+  process.env.STORAGE = "memory";
+  process.env.AUTH_PROVIDERS = "dev";
+  process.env.SESSION_SECRET = "test-session-secret";
+
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const login = await fetch(`${baseUrl}/api/auth/dev/login?as=ada`, { redirect: "manual" });
+  cookie = login.headers.get("set-cookie")!.split(";")[0];
+
+  const project = await request("POST", "/api/projects", { cookie }, {
+    name: "Greeting",
+    prompt: "a greeting page",
+    language: "html",
+    files: { "index.html": { content: "<h1>Hello</h1>" } },
+  });
+  projectId = (await project.json()).id;
+});
+
+after(() => {
+  setProviderOverride(null);
+  server.close();
+});
+
+const request = (method: string, path: string, headers: Record<string, string>, body?: unknown) =>
+  fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "content-type": "application/json", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+// Created from the browser session, the only place tokens can come from
+async function createToken(scopes: ApiTokenScope[]) {
+  const response = await request("POST", "/api/tokens", { cookie }, { name: scopes.join("+"), scopes });
+  assert.equal(response.status, 201);
+  const { id, token } = await response.json();
+  return { id: id as string, headers: { authorization: `Bearer ${token}` } };
+}
+
+async function indexHtml() {
+  const project = await (await request("GET", `/api/projects/${projectId}`, { cookie })).json();
+  return project.files["index.html"].content;
+}
+
+test("a read token can read projects but not change them", async () => {
+  const { headers } = await createToken(["read"]);
+
+  assert.equal((await request("GET", "/api/projects", headers)).status, 200);
+  assert.equal((await request("GET", `/api/projects/${projectId}/files/index.html`, headers)).status, 200);
+
+  const update = await request("PUT", `/api/projects/${projectId}`, headers, { files: { "index.html": { content: "<h1>Changed</h1>" } } });
+  assert.equal(update.status, 403);
+  assert.match((await update.json()).message, /lacks the write scope/);
+  assert.equal((await request("DELETE", `/api/projects/${projectId}`, headers)).status, 403);
+  assert.equal((await request("DELETE", `/api/projects/${projectId}/files/index.html`, headers)).status, 403);
+
+  assert.equal(await indexHtml(), "<h1>Hello</h1>");
+});
+
+test("a generate token can generate but not read or write files", async () => {
+  setProviderOverride(new ScriptedProvider(["```html path=index.html action=create\n<h1>Hi</h1>\n```"]));
+  const { headers } = await createToken(["generate"]);
+
+  const generated = await request("POST", "/api/ask", headers, { prompt: "a greeting page" });
+  assert.equal(generated.status, 200);
+  assert.equal((await generated.json()).provider, "scripted");
+
+  assert.equal((await request("PUT", `/api/projects/${projectId}/files/index.html`, headers, { content: "<h1>Changed</h1>" })).status, 403);
+  assert.equal((await request("POST", `/api/projects/${projectId}/files`, headers, { filePath: "extra.js", content: "" })).status, 403);
+  assert.equal((await request("POST", "/api/projects", headers, { name: "New", prompt: "new", language: "html" })).status, 403);
+  assert.equal((await request("GET", `/api/projects/${projectId}`, headers)).status, 403);
+
+  assert.equal(await indexHtml(), "<h1>Hello</h1>");
+});
+
+test("a write token cannot generate", async () => {
+  const { headers } = await createToken(["read", "write"]);
+  assert.equal((await request("POST", "/api/ask", headers, { prompt: "a greeting page" })).status, 403);
+});
+
+test("no token can list, create or revoke tokens, whatever its scopes", async () => {
+  const { id, headers } = await createToken(["read", "write", "generate"]);
+
+  for (const [method, path, body] of [
+    ["GET", "/api/tokens"],
+    ["POST", "/api/tokens", { name: "minted", scopes: ["read"] }],
+    ["DELETE", `/api/tokens/${id}`],
+  ] as const) {
+    const response = await request(method, path, headers, body);
+    assert.equal(response.status, 403, `${method} ${path}`);
+  }
+
+  const tokens = await (await request("GET", "/api/tokens", { cookie })).json();
+  assert.ok(tokens.some((token: { id: string }) => token.id === id));
+  assert.ok(!tokens.some((token: { name: string }) => token.name === "minted"));
+});
+
+test("a revoked or unknown token is refused", async () => {
+  const { id, headers } = await createToken(["read"]);
+  assert.equal((await request("DELETE", `/api/tokens/${id}`, { cookie })).status, 204);
+
+  assert.equal((await request("GET", "/api/projects", headers)).status, 401);
+  assert.equal((await request("GET", "/api/projects", { authorization: "Bearer aie_not-a-token" })).status, 401);
+});
@@ -0,0 +1,76 @@
+import { createHash, randomBytes } from "crypto";
+import type { Request, RequestHandler } from "express";
+import type { ApiToken, ApiTokenScope } from "@shared/schema";
+import { storage } from "./storage";
+import type { SessionUser } from "./auth";
+
+// Personal API tokens, sent as "Authorization: Bearer <token>" by scripts and CI
+
+// Makes leaked tokens easy to spot in logs and secret scanners
+const TOKEN_PREFIX = "aie_";
+// lastUsedAt is only written when it is this far behind, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const hashApiToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+// The plaintext token is only ever returned here, when it is created
+export function generateApiToken() {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6) };
+}
+
+// What the settings list shows; the hash stays on the server
+export function toPublicApiToken({ tokenHash: _tokenHash, ...token }: ApiToken) {
+  return token;
+}
+
+const isExpired = (token: ApiToken, now: Date) => token.expiresAt !== null && token.expiresAt <= now;
+
+// Resolves the request's bearer token to the user it belongs to. Undefined when
+// the request has no bearer token, null when the token is unknown or expired.
+export async function authenticateBearer(req: Request): Promise<SessionUser | null | undefined> {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") ?? "");
+  if (!match) return undefined;
+
+  const token = await storage.getApiTokenByHash(hashApiToken(match[1]));
+  const now = new Date();
+  if (!token || isExpired(token, now)) return null;
+
+  if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    storage.touchApiToken(token.id, now).catch((error) => console.error("Error recording API token use:", error));
+  }
+  return {
+    id: token.userId,
+    provider: "token",
+    scopes: token.scopes,
+    expires_at: token.expiresAt ? Math.floor(token.expiresAt.getTime() / 1000) : Number.MAX_SAFE_INTEGER,
+  };
+}
+
+// Browser sessions may do everything; API tokens only what they were scoped for.
+// Only valid behind isAuthenticated.
+const hasScope = (req: Request, scope: ApiTokenScope) => {
+  const user = req.user as SessionUser;
+  return user.provider !== "token" || Boolean(user.scopes?.includes(scope));
+};
+
+export const requireScope =
+  (scope: ApiTokenScope): RequestHandler =>
+  (req, res, next) => {
+    if (!hasScope(req, scope)) {
+      return res.status(403).json({ message: `This API token lacks the ${scope} scope` });
+    }
+    next();
+  };
+
+// Reads need the read scope and everything else the write scope
+export const requireMethodScope: RequestHandler = (req, res, next) =>
+  requireScope(["GET", "HEAD", "OPTIONS"].includes(req.method) ? "read" : "write")(req, res, next);
+
+// Token management is kept to browser sessions, so a leaked token cannot mint more
+export const requireBrowserSession: RequestHandler = (req, res, next) => {
+  if ((req.user as SessionUser).provider === "token") {
+    return res.status(403).json({ message: "API tokens cannot manage API tokens" });
+  }
+  next();
+};
@@ -0,0 +1,288 @@
+import passport from "passport";
+import session from "express-session";
+import type { Express, RequestHandler } from "express";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { storage, DatabaseStorage } from "./storage";
+import { setupOidcProvider, refreshOidcSession, oidcLogoutUrl } from "./auth-oidc";
+import { setupLocalAuth } from "./auth-local";
+import { authenticateBearer } from "./auth-tokens";
+import type { ApiTokenScope } from "@shared/schema";
+
+// Set default domain for development if not provided
+const domains = process.env.REPLIT_DOMAINS || 'localhost:5000,localhost:3000';
+
+// Sign-in providers, enabled with AUTH_PROVIDERS as a comma-separated list:
+// - "local": email and password accounts stored here
+// - "replit": Replit's OIDC issuer, needs REPL_ID
+// - "oidc": any OIDC issuer, configured with OIDC_ISSUER_URL, OIDC_CLIENT_ID
+//   and optionally OIDC_CLIENT_SECRET and OIDC_SCOPES
+// - "dev": any identity without a password, picked at /api/auth/dev/login?as=<name>;
+//   for local development only
+// Without AUTH_PROVIDERS, local is on, and the others whenever they are configured.
+export type AuthProvider = "local" | "replit" | "oidc" | "dev";
+
+const AUTH_PROVIDERS: AuthProvider[] = ["local", "replit", "oidc", "dev"];
+
+export function getAuthProviders(): AuthProvider[] {
+  const production = process.env.NODE_ENV === "production";
+  const configured = process.env.AUTH_PROVIDERS
+    ?.split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const providers = configured ?? [
+    "local",
+    ...(process.env.REPL_ID ? ["replit"] : []),
+    ...(process.env.OIDC_ISSUER_URL && process.env.OIDC_CLIENT_ID ? ["oidc"] : []),
+    ...(production ? [] : ["dev"]),
+  ];
+
+  for (const provider of providers) {
+    if (!AUTH_PROVIDERS.includes(provider as AuthProvider)) {
+      throw new Error(`Unknown auth provider "${provider}", expected one of ${AUTH_PROVIDERS.join(", ")}`);
+    }
+  }
+  if (providers.includes("dev") && production) {
+    throw new Error("The dev auth provider is not allowed in production");
+  }
+  if (providers.includes("replit") && !process.env.REPL_ID) {
+    throw new Error("The replit auth provider needs REPL_ID");
+  }
+  if (providers.includes("oidc") && !(process.env.OIDC_ISSUER_URL && process.env.OIDC_CLIENT_ID)) {
+    throw new Error("The oidc auth provider needs OIDC_ISSUER_URL and OIDC_CLIENT_ID");
+  }
+  return providers as AuthProvider[];
+}
+
+// What a session keeps about its user. Tokens are only there for OIDC sign-ins;
+// requests authenticated by an API token carry the token's scopes instead.
+export interface SessionUser {
+  id: string;
+  provider: AuthProvider | "token";
+  scopes?: ApiTokenScope[];
+  claims?: Record<string, unknown>;
+  access_token?: string;
+  refresh_token?: string;
+  // Seconds since the epoch
+  expires_at?: number;
+}
+
+// The identity dev sign-in uses when none is picked; projects created
+// before sign-in existed belong to it
+const DEFAULT_DEV_USER_ID = "dev-user-123";
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+const SESSION_COOKIE = "sid";
+
+// SESSION_SECRET may list several secrets separated by commas: the first signs
+// new cookies and the rest still verify old ones, so secrets can be rotated
+function getSessionSecrets(): string[] {
+  const secrets = (process.env.SESSION_SECRET ?? "").split(",").map((secret) => secret.trim()).filter(Boolean);
+  if (secrets.length > 0) return secrets;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("⚠️ SESSION_SECRET is not set; using an insecure development secret");
+  return ["dev-secret-key-change-in-production"];
+}
+
+// Sessions live in the sessions table next to the rest of the data when
+// storage is Postgres, and in memory otherwise
+function getSessionStore(): session.Store {
+  if (storage instanceof DatabaseStorage) {
+    const PgStore = connectPg(session);
+    return new PgStore({
+      conString: process.env.DATABASE_URL,
+      tableName: "sessions",
+      // The table is part of the schema and created by migrations
+      createTableIfMissing: false,
+      ttl: SESSION_TTL_MS / 1000,
+    });
+  }
+  const MemoryStore = createMemoryStore(session);
+  // Drops expired sessions once a day
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+export function getSession() {
+  const production = process.env.NODE_ENV === "production";
+  return session({
+    name: SESSION_COOKIE,
+    secret: getSessionSecrets(),
+    store: getSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      // Behind the trusted proxy req.secure follows X-Forwarded-Proto, so "auto"
+      // still sets secure cookies for https visitors in development
+      secure: production ? true : "auto",
+      // Lax still sends the cookie on the top-level redirect back from an OIDC issuer
+      sameSite: "lax",
+      maxAge: SESSION_TTL_MS,
+    },
+  });
+}
+
+// Dev sessions never expire on their own and have no tokens to refresh
+const DEV_SESSION_EXPIRY = Number.MAX_SAFE_INTEGER;
+
+function setupDevAuth(app: Express) {
+  // ?as=<name> switches identity; names are slugged into ids like "dev-alice"
+  app.get("/api/auth/dev/login", async (req, res, next) => {
+    try {
+      const name = typeof req.query.as === "string" ? req.query.as.trim().toLowerCase() : "";
+      const slug = name.replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+      const id = slug ? `dev-${slug}` : DEFAULT_DEV_USER_ID;
+      await storage.upsertUser({
+        id,
+        email: `${id}@dev.localhost`,
+        firstName: slug || "Developer",
+      });
+      const user: SessionUser = { id, provider: "dev", expires_at: DEV_SESSION_EXPIRY };
+      req.login(user, (error) => {
+        if (error) return next(error);
+        console.log(`🔑 Signed in as ${id} (dev auth)`);
+        res.redirect("/");
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
+
+const splitList = (value: string) => value.split(/[\s,]+/).filter(Boolean);
+
+export async function setupAuth(app: Express) {
+  const providers = getAuthProviders();
+  const domainList = splitList(domains);
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  if (providers.includes("local")) {
+    setupLocalAuth(app);
+  }
+
+  if (providers.includes("replit")) {
+    await setupOidcProvider(app, {
+      name: "replit",
+      issuerUrl: process.env.ISSUER_URL ?? "https://replit.com/oidc",
+      clientId: process.env.REPL_ID!,
+      scopes: ["openid", "email", "profile", "offline_access"],
+      loginPath: "/api/auth/replit/login",
+      callbackPath: "/api/callback",
+      domains: domainList,
+      authorizationParams: { prompt: "login consent" },
+      toUser: (claims) => ({
+        id: claims.sub,
+        email: claims.email as string | undefined,
+        firstName: claims.first_name as string | undefined,
+        lastName: claims.last_name as string | undefined,
+        profileImageUrl: claims.profile_image_url as string | undefined,
+      }),
+    });
+  }
+
+  if (providers.includes("oidc")) {
+    await setupOidcProvider(app, {
+      name: "oidc",
+      issuerUrl: process.env.OIDC_ISSUER_URL!,
+      clientId: process.env.OIDC_CLIENT_ID!,
+      clientSecret: process.env.OIDC_CLIENT_SECRET,
+      scopes: splitList(process.env.OIDC_SCOPES || "openid email profile"),
+      loginPath: "/api/auth/oidc/login",
+      callbackPath: "/api/auth/oidc/callback",
+      domains: domainList,
+      // Prefixed so subjects from another issuer cannot collide with Replit or local ids
+      toUser: (claims) => ({
+        id: `oidc:${claims.sub}`,
+        email: claims.email as string | undefined,
+        firstName: claims.given_name as string | undefined,
+        lastName: claims.family_name as string | undefined,
+        profileImageUrl: claims.picture as string | undefined,
+      }),
+    });
+  }
+
+  if (providers.includes("dev")) {
+    console.log("🔓 Dev auth: sign in at /api/auth/dev/login, or /api/auth/dev/login?as=<name> to switch identity");
+    setupDevAuth(app);
+  }
+
+  // Lets the sign-in page show the options this server offers
+  app.get("/api/auth/providers", (_req, res) => {
+    res.json({ providers });
+  });
+
+  // Starts the first redirect-based sign-in that is enabled; local accounts
+  // sign in by posting to /api/auth/login instead
+  app.get("/api/login", (req, res) => {
+    const query = req.url.includes("?") ? req.url.slice(req.url.indexOf("?")) : "";
+    if (providers.includes("replit")) return res.redirect(`/api/auth/replit/login${query}`);
+    if (providers.includes("oidc")) return res.redirect(`/api/auth/oidc/login${query}`);
+    if (providers.includes("dev")) return res.redirect(`/api/auth/dev/login${query}`);
+    res.status(404).json({ message: "Sign in with POST /api/auth/login" });
+  });
+
+  // Deletes the session from the store rather than just emptying it, so a
+  // copied cookie is useless after signing out
+  app.get("/api/logout", (req, res, next) => {
+    const user = req.user as SessionUser | undefined;
+    const returnTo = `${req.protocol}://${req.get("host")}`;
+    req.logout((logoutError) => {
+      if (logoutError) return next(logoutError);
+      req.session.destroy(async (error) => {
+        if (error) return next(error);
+        res.clearCookie(SESSION_COOKIE, { path: "/" });
+        // Ends the issuer's session too where it supports that
+        const endSessionUrl = user && (await oidcLogoutUrl(user, returnTo).catch(() => null));
+        res.redirect(endSessionUrl || "/");
+      });
+    });
+  });
+}
+
+// Id of the signed-in user; only valid behind isAuthenticated
+export function getUserId(req: Express.Request): string {
+  const user = req.user as SessionUser;
+  // Sessions from before providers were tracked only carry the OIDC claims
+  return user.id ?? (user.claims?.sub as string);
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  // A bearer token takes precedence over any session cookie sent along
+  const tokenUser = await authenticateBearer(req).catch((error) => {
+    console.error("Error checking API token:", error);
+    return null;
+  });
+  if (tokenUser !== undefined) {
+    if (!tokenUser) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+    req.user = tokenUser;
+    return next();
+  }
+
+  const user = req.user as SessionUser | undefined;
+
+  if (!req.isAuthenticated() || !user?.expires_at) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now <= user.expires_at) {
+    return next();
+  }
+
+  // Sessions signed in through Replit before providers were tracked have no provider
+  user.provider ??= "replit";
+  if (await refreshOidcSession(user)) {
+    return next();
+  }
+  res.status(401).json({ message: "Unauthorized" });
+};
@@ -0,0 +1,153 @@
+import { test, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { ScriptedProvider, setProviderOverride } from "./llm";
+
+// The generation routes end to end, with the model replaced by scripted responses
+
+const SCRIPTED_RESPONSE = [
+  "Here is a greeting page.",
+  "",
+  "```html path=index.html action=create",
+  "<h1>Hello</h1>",
+  "```",
+  "",
+  "```css path=style.css action=create",
+  "h1 { color: teal; }",
+  "```",
+].join("\n");
+
+// Fails before producing anything, so the routes fall back to their templates
+const failingProvider = () =>
+  new ScriptedProvider(() => {
+    throw new Error("provider unavailable");
+  });
+
+let server: Server;
+let baseUrl: string;
+let cookie: string;
+
+before(async () => {
+  // Read when the auth and storage modules load
+  process.env.STORAGE = "memory";
+  process.env.AUTH_PROVIDERS = "dev";
+  process.env.SESSION_SECRET = "test-session-secret";
+
+  const { setupAuth } = await import("./auth");
+  const { registerChatRoutes } = await import("./chat-routes");
+  const app = express();
+  app.use(express.json());
+  await setupAuth(app);
+  registerChatRoutes(app);
+
+  server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const login = await fetch(`${baseUrl}/api/auth/dev/login?as=tester`, { redirect: "manual" });
+  cookie = login.headers.get("set-cookie")!.split(";")[0];
+});
+
+afterEach(() => setProviderOverride(null));
+
+after(() => server.close());
+
+const post = (path: string, body: unknown, headers: Record<string, string> = { cookie }) =>
+  fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+// Reads the whole SSE response into its events
+async function readEvents(response: Response) {
+  const text = await response.text();
+  return text
+    .split("\n\n")
+    .filter((block) => block.includes("data: "))
+    .map((block) => JSON.parse(block.slice(block.indexOf("data: ") + "data: ".length)));
+}
+
+test("generation routes need a signed-in user", async () => {
+  setProviderOverride(new ScriptedProvider([SCRIPTED_RESPONSE]));
+  assert.equal((await post("/api/claude-proxy", { prompt: "hello page" }, {})).status, 401);
+  assert.equal((await post("/api/claude-proxy/stream", { prompt: "hello page" }, {})).status, 401);
+});
+
+test("rejects a request without a prompt", async () => {
+  const response = await post("/api/claude-proxy", { prompt: "" });
+  assert.equal(response.status, 400);
+  assert.equal((await response.json()).success, false);
+});
+
+test("/api/claude-proxy returns the provider's response with its file manifest", async () => {
+  const provider = new ScriptedProvider([SCRIPTED_RESPONSE]);
+  setProviderOverride(provider);
+
+  const response = await post("/api/claude-proxy", {
+    prompt: "make it say hello",
+    files: { "index.html": { content: "<h1>Hi</h1>" } },
+  });
+  assert.equal(response.status, 200);
+  const body = await response.json();
+  assert.equal(body.success, true);
+  assert.equal(body.provider, "scripted");
+  assert.equal(body.response, SCRIPTED_RESPONSE);
+  assert.deepEqual(
+    body.manifest.files.map((file: { path: string; action: string }) => [file.path, file.action]),
+    [
+      ["index.html", "create"],
+      ["style.css", "create"],
+    ],
+  );
+
+  // The project's files reach the model as context
+  assert.equal(provider.requests.length, 1);
+  assert.match(provider.requests[0].system ?? "", /index\.html/);
+});
+
+test("/api/claude-proxy falls back to the local templates when the provider fails", async () => {
+  setProviderOverride(failingProvider());
+
+  const response = await post("/api/claude-proxy", { prompt: "build a todo app" });
+  assert.equal(response.status, 200);
+  const body = await response.json();
+  assert.equal(body.success, true);
+  assert.equal(body.provider, "local");
+  assert.ok(body.response.length > 0);
+});
+
+test("/api/claude-proxy/stream streams tokens and file events, then the manifest", async () => {
+  setProviderOverride(new ScriptedProvider([SCRIPTED_RESPONSE]));
+
+  const response = await post("/api/claude-proxy/stream", { prompt: "make it say hello" });
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get("content-type") ?? "", /^text\/event-stream/);
+  const events = await readEvents(response);
+
+  const tokens = events.filter((event) => event.type === "token").map((event) => event.text);
+  assert.equal(tokens.join(""), SCRIPTED_RESPONSE);
+  assert.ok(events.some((event) => event.type === "file-start"));
+
+  const done = events.at(-1);
+  assert.equal(done.type, "done");
+  assert.equal(done.provider, "scripted");
+  assert.equal(done.response, SCRIPTED_RESPONSE);
+  assert.deepEqual(
+    done.manifest.files.map((file: { path: string }) => file.path),
+    ["index.html", "style.css"],
+  );
+});
+
+test("/api/claude-proxy/stream falls back to the local templates when the provider fails", async () => {
+  setProviderOverride(failingProvider());
+
+  const events = await readEvents(await post("/api/claude-proxy/stream", { prompt: "build a todo app" }));
+  assert.ok(!events.some((event) => event.type === "error"));
+  const done = events.at(-1);
+  assert.equal(done.type, "done");
+  assert.equal(done.provider, "local");
+});
@@ -1,4 +1,17 @@
 import { Express } from 'express';
+import { generationRequestSchema, type GenerationRequest } from '@shared/generation';
+import {
+  buildGenerationRequest,
+  generateWithFallback,
+  isProviderName,
+  resolveProvider,
+  streamWithFallback,
+  type ProviderName
+} from './llm';
+import { FenceStreamParser, openEventStream, parseGeneration } from './generation-stream';
+import { generateReplitResponse } from './replit-agent';
+import { isAuthenticated } from './auth';
+import { requireScope } from './auth-tokens';
 
 // Simple local response system that speaks normally in English
 function generateLocalResponse(prompt: string): string {
@@ -455,62 +468,16 @@ This creates a clean, responsive website with:
   return chatResponses[Math.floor(Math.random() * chatResponses.length)];
 }
 
-export function registerChatRoutes(app: Express) {
-  // Proxy route for your hosted AI API
-  app.post('/api/generate-code', async (req, res) => {
-    try {
-      console.log('AI proxy request:', req.body);
-
-      const { prompt, codeType, framework, includeComments } = req.body;
-      const AI_CODE_API = 'https://new-project-49chatgptreplit.created.app/api/generate-code';
-
-      // Make request to your hosted Create API
-      const response = await fetch(AI_CODE_API, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          prompt,
-          codeType: codeType || 'javascript',
-          framework: framework || null,
-          includeComments: includeComments !== false
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`API responded with status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      res.json(data);
-
-    } catch (error) {
-      console.error('Error calling AI API:', error);
-      res.status(500).json({
-        error: 'Failed to generate code',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
-  app.post('/api/claude-proxy', (req, res) => {
-  try {
-    const { prompt } = req.body;
-
-    if (!prompt) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'Prompt is required' 
-      });
-    }
-
-    const lowerPrompt = prompt.toLowerCase();
-    let response = '';
+// Offline template engine behind the "local" provider for /api/claude-proxy
+function generateProxyTemplate(prompt: string): string {
+  const lowerPrompt = prompt.toLowerCase();
+  let response = '';
 
-    // Enhanced AI responses with actual code generation
-    if (lowerPrompt.includes('calculator')) {
-      response = `I'll create a modern calculator app for you!
+  // Enhanced AI responses with actual code generation
+  if (lowerPrompt.includes('react')) {
+    response = generateReplitResponse(prompt).response;
+  } else if (lowerPrompt.includes('calculator')) {
+    response = `I'll create a modern calculator app for you!
 
 \`\`\`html
 <!DOCTYPE html>
@@ -697,8 +664,8 @@ This calculator features:
 - Mobile-responsive layout
 - Advanced mathematical operations`;
 
-    } else if (lowerPrompt.includes('todo')) {
-      response = `I'll create a beautiful todo list app for you!
+  } else if (lowerPrompt.includes('todo')) {
+    response = `I'll create a beautiful todo list app for you!
 
 \`\`\`html
 <!DOCTYPE html>
@@ -1029,8 +996,8 @@ This todo app includes:
 - Modern responsive design
 - Smooth animations`;
 
-    } else if (lowerPrompt.includes('website') || lowerPrompt.includes('landing')) {
-      response = `I'll create a stunning modern website for you!
+  } else if (lowerPrompt.includes('website') || lowerPrompt.includes('landing')) {
+    response = `I'll create a stunning modern website for you!
 
 \`\`\`html
 <!DOCTYPE html>
@@ -1376,8 +1343,8 @@ This modern website includes:
 - Modern CSS animations
 - Professional layout and typography`;
 
-    } else if (lowerPrompt.includes('game')) {
-      response = `I'll create an exciting game for you!
+  } else if (lowerPrompt.includes('game')) {
+    response = `I'll create an exciting game for you!
 
 \`\`\`html
 <!DOCTYPE html>
@@ -1710,9 +1677,9 @@ This Space Invaders game features:
 - Progressive difficulty
 - Retro styling with modern touches`;
 
-    } else {
-      // General conversation
-      response = `I understand! I'm here to help you build amazing things. Here's what I can create for you:
+  } else {
+    // General conversation
+    response = `I understand! I'm here to help you build amazing things. Here's what I can create for you:
 
 🧮 **Calculators** - Modern, functional calculators with advanced features
 📝 **Todo Apps** - Beautiful task management applications
@@ -1726,11 +1693,88 @@ This Space Invaders game features:
 Just tell me what you want to build and I'll create the complete code for you! Everything works locally without any external dependencies.
 
 What would you like to create today?`;
+  }
+
+  return response;
+}
+
+// Validates a generation request body, including the optional project context
+function parseGenerationInput(body: unknown): (GenerationRequest & { provider?: ProviderName }) | { error: string } {
+  const result = generationRequestSchema.safeParse(body);
+  if (!result.success) {
+    return { error: result.error.issues[0]?.message ?? 'Invalid request' };
+  }
+
+  const { provider } = result.data;
+  if (provider !== undefined && !isProviderName(provider)) {
+    return { error: `Unknown provider: ${provider}` };
+  }
+
+  return { ...result.data, provider };
+}
+
+export function registerChatRoutes(app: Express) {
+  // Proxy route for your hosted AI API
+  app.post('/api/generate-code', async (req, res) => {
+    try {
+      console.log('AI proxy request:', req.body);
+
+      const { prompt, codeType, framework, includeComments } = req.body;
+      const AI_CODE_API = 'https://new-project-49chatgptreplit.created.app/api/generate-code';
+
+      // Make request to your hosted Create API
+      const response = await fetch(AI_CODE_API, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          prompt,
+          codeType: codeType || 'javascript',
+          framework: framework || null,
+          includeComments: includeComments !== false
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`API responded with status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      res.json(data);
+
+    } catch (error) {
+      console.error('Error calling AI API:', error);
+      res.status(500).json({
+        error: 'Failed to generate code',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
+  });
+
+  // Generation spends the configured provider key, so it is kept to signed-in users
+  app.post('/api/claude-proxy', isAuthenticated, requireScope('generate'), async (req, res) => {
+  try {
+    const input = parseGenerationInput(req.body);
+    if ('error' in input) {
+      return res.status(400).json({ 
+        success: false, 
+        error: input.error 
+      });
+    }
+
+    const provider = resolveProvider(input.provider, generateProxyTemplate);
+    const result = await generateWithFallback(
+      provider,
+      buildGenerationRequest(input.prompt, input),
+      generateProxyTemplate
+    );
 
     res.json({
       success: true,
-      response: response
+      response: result.text,
+      provider: result.provider,
+      manifest: parseGeneration(result.text)
     });
 
   } catch (error) {
@@ -1742,6 +1786,69 @@ What would you like to create today?`;
   }
 });
 
+  // Streaming variant of /api/claude-proxy: emits tokens, file and stage events
+  // over SSE as the provider produces them. Closing the connection aborts
+  // the generation upstream.
+  app.post('/api/claude-proxy/stream', isAuthenticated, requireScope('generate'), async (req, res) => {
+    const input = parseGenerationInput(req.body);
+    if ('error' in input) {
+      return res.status(400).json({ success: false, error: input.error });
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        console.log('🛑 Client disconnected, aborting generation');
+        controller.abort();
+      }
+    });
+
+    const events = openEventStream(res);
+    const parser = new FenceStreamParser();
+    let response = '';
+    let providerName = '';
+    let sawFile = false;
+
+    events.send({ type: 'stage', stage: 'analysis', message: 'Analyzing your request...' });
+
+    try {
+      const provider = resolveProvider(input.provider, generateProxyTemplate);
+      const chunks = streamWithFallback(
+        provider,
+        buildGenerationRequest(input.prompt, input, controller.signal),
+        generateProxyTemplate
+      );
+
+      for await (const chunk of chunks) {
+        if (!response) {
+          events.send({ type: 'stage', stage: 'architecture', message: `Generating with ${chunk.provider}...` });
+        }
+        response += chunk.text;
+        providerName = chunk.provider;
+        events.send({ type: 'token', text: chunk.text });
+
+        for (const event of parser.push(chunk.text)) {
+          if (event.type === 'file-start' && !sawFile) {
+            sawFile = true;
+            events.send({ type: 'stage', stage: 'frontend', message: 'Writing files...' });
+          }
+          events.send(event);
+        }
+      }
+
+      parser.finish().forEach(events.send);
+      events.send({ type: 'stage', stage: 'complete', message: 'Generation complete' });
+      events.send({ type: 'done', response, provider: providerName, manifest: parser.manifest() });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Streaming chat error:', error);
+        events.send({ type: 'error', message: error instanceof Error ? error.message : 'Generation failed' });
+      }
+    } finally {
+      events.close();
+    }
+  });
+
   // Health check route
   app.get('/api/health', (req, res) => {
     res.json({ 
@@ -1,98 +1,297 @@
-
-import express from 'express';
+import express, { type Request, type Response, type NextFunction, type RequestHandler } from 'express';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
+import { normalizeGeneratedPath } from './generation-stream';
+import { MODULE_EXTENSIONS, bundleModule, rewritePreviewHtml, type PreviewBundle } from './preview-bundler';
 
-let fileServer: any = null;
-let currentPort = 5000;
+// Hosts live previews for many projects at once under /preview/:projectId/:accessKey/
+// on the main app. Each preview is a temp directory that is kept in sync
+// incrementally, so re-previewing after an edit only rewrites changed files.
+// Idle previews are evicted and their directories removed. TypeScript/JSX
+// entries are bundled on request (see preview-bundler.ts).
+//
+// Preview pages run whatever code the project contains, so they are always
+// served sandboxed with an opaque origin. Sandboxed pages send no session
+// cookie, so the random access key in the URL is what grants access.
 
-interface ProjectFile {
+interface PreviewFile {
   content: string;
-  language?: string;
+  // "binary" files carry base64 content (uploaded images and other assets)
+  type?: string;
 }
 
-interface Project {
-  id: string;
-  files: Record<string, ProjectFile>;
+interface PreviewEntry {
+  projectId: string;
+  ownerId: string;
+  accessKey: string;
+  dir: string;
+  // Content hash per written path, to skip unchanged files on the next sync
+  hashes: Map<string, string>;
+  serveStatic: RequestHandler;
+  // Bundled module entries, dropped whenever the files change
+  bundles: Map<string, Promise<PreviewBundle>>;
+  lastAccess: number;
 }
 
-export function startFileServer(project: Project): Promise<number> {
-  return new Promise((resolve, reject) => {
-    // Stop existing server if running
-    if (fileServer) {
-      fileServer.close();
-    }
-
-    const app = express();
-    
-    // Enable CORS for preview
-    app.use((req, res, next) => {
-      res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
-      next();
-    });
+export interface PreviewSyncResult {
+  url: string;
+  written: number;
+  removed: number;
+  unchanged: number;
+  // Paths written or removed, so the client can tell stylesheet-only edits apart
+  changed: string[];
+}
+
+interface PreviewManagerOptions {
+  rootDir?: string;
+  idleTimeoutMs?: number;
+  maxPreviews?: number;
+}
+
+// A preview id is only ever synced by the user who started it
+export class PreviewOwnerError extends Error {
+  constructor(previewId: string) {
+    super(`Preview ${previewId} belongs to another user`);
+  }
+}
+
+// A file set where one path is also a folder of another, e.g. "src" and "src/App.tsx"
+export class PreviewConflictError extends Error {
+  constructor(public filePath: string, public folderPath: string) {
+    super(`${folderPath} is both a file and the folder of ${filePath}`);
+  }
+}
+
+const hash = (content: string) => crypto.createHash('sha1').update(content).digest('hex');
+
+export class PreviewManager {
+  private previews = new Map<string, PreviewEntry>();
+  private rootDir: string;
+  private idleTimeoutMs: number;
+  private maxPreviews: number;
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(options: PreviewManagerOptions = {}) {
+    this.rootDir = options.rootDir ?? path.join(process.cwd(), 'temp-projects');
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 15 * 60 * 1000;
+    this.maxPreviews = options.maxPreviews ?? 50;
+
+    // Directories left behind by a previous run are never served again
+    fs.rmSync(this.rootDir, { recursive: true, force: true });
+    fs.mkdirSync(this.rootDir, { recursive: true });
+
+    this.sweepTimer = setInterval(() => this.evictIdle(), 60 * 1000);
+    this.sweepTimer.unref();
+  }
+
+  private urlFor(entry: PreviewEntry): string {
+    return `/preview/${encodeURIComponent(entry.projectId)}/${entry.accessKey}/`;
+  }
+
+  get(projectId: string): PreviewEntry | undefined {
+    return this.previews.get(projectId);
+  }
+
+  // The preview a /preview/:projectId/:accessKey URL points at, if the key matches
+  getByAccessKey(projectId: string, accessKey: string): PreviewEntry | undefined {
+    const entry = this.previews.get(projectId);
+    if (!entry) return undefined;
+    const expected = Buffer.from(entry.accessKey);
+    const given = Buffer.from(accessKey);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected) ? entry : undefined;
+  }
 
-    // Create temp directory for project files
-    const tempDir = path.join(process.cwd(), 'temp-projects', project.id);
-    
-    // Ensure directory exists
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
-    }
-
-    // Write all project files to temp directory
-    Object.entries(project.files).forEach(([fileName, fileData]) => {
-      const filePath = path.join(tempDir, fileName);
-      const fileDir = path.dirname(filePath);
-      
-      // Ensure subdirectories exist
-      if (!fs.existsSync(fileDir)) {
-        fs.mkdirSync(fileDir, { recursive: true });
+  // Brings the preview directory in line with the given files, creating it on first use
+  sync(projectId: string, ownerId: string, files: Record<string, PreviewFile>): PreviewSyncResult {
+    let entry = this.previews.get(projectId);
+    if (entry && entry.ownerId !== ownerId) {
+      throw new PreviewOwnerError(projectId);
+    }
+
+    // Checked as a whole before anything is written, so a bad set leaves the directory as it was
+    const wanted = new Map<string, PreviewFile>();
+    for (const [name, file] of Object.entries(files)) {
+      const filePath = normalizeGeneratedPath(name);
+      if (!filePath) {
+        console.warn(`⚠️ Skipping preview file with unsafe path: ${name}`);
+        continue;
+      }
+      wanted.set(filePath, file);
+    }
+    for (const filePath of Array.from(wanted.keys())) {
+      const segments = filePath.split('/');
+      for (let i = 1; i < segments.length; i++) {
+        const folderPath = segments.slice(0, i).join('/');
+        if (wanted.has(folderPath)) throw new PreviewConflictError(filePath, folderPath);
+      }
+    }
+
+    if (!entry) {
+      const dir = path.join(this.rootDir, projectId.replace(/[^\w-]/g, '_'));
+      fs.mkdirSync(dir, { recursive: true });
+      entry = {
+        projectId,
+        ownerId,
+        accessKey: crypto.randomBytes(18).toString('base64url'),
+        dir,
+        hashes: new Map(),
+        serveStatic: express.static(dir, { index: false, redirect: false }),
+        bundles: new Map(),
+        lastAccess: Date.now(),
+      };
+      this.previews.set(projectId, entry);
+      this.evictOverflow();
+      console.log(`🚀 Preview started for ${projectId}`);
+    }
+
+    const result: PreviewSyncResult = { url: this.urlFor(entry), written: 0, removed: 0, unchanged: 0, changed: [] };
+
+    // Removed first, so a file can make way for a folder of the same name
+    for (const filePath of Array.from(entry.hashes.keys())) {
+      if (wanted.has(filePath)) continue;
+      fs.rmSync(path.join(entry.dir, filePath), { force: true });
+      removeEmptyParents(path.dirname(path.join(entry.dir, filePath)), entry.dir);
+      entry.hashes.delete(filePath);
+      result.removed++;
+      result.changed.push(filePath);
+    }
+
+    for (const [filePath, file] of Array.from(wanted.entries())) {
+      const contentHash = hash(`${file.type === 'binary' ? 'binary:' : ''}${file.content}`);
+      if (entry.hashes.get(filePath) === contentHash) {
+        result.unchanged++;
+        continue;
       }
-      
-      fs.writeFileSync(filePath, fileData.content);
-    });
 
-    // Serve static files
-    app.use(express.static(tempDir));
+      const target = path.join(entry.dir, filePath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, file.type === 'binary' ? Buffer.from(file.content, 'base64') : file.content);
+      entry.hashes.set(filePath, contentHash);
+      result.written++;
+      result.changed.push(filePath);
+    }
+
+    if (result.written + result.removed > 0) {
+      entry.bundles.clear();
+    }
+    entry.lastAccess = Date.now();
+    return result;
+  }
+
+  // Serves /preview/:projectId/:accessKey/*; mount with both as route params.
+  // Previews mounted elsewhere (e.g. public share links) pass their own base URL.
+  serve(projectId: string, req: Request, res: Response, next: NextFunction, baseUrl?: string) {
+    const entry = this.previews.get(projectId);
+    if (!entry) {
+      return res.status(404).send('Preview not running');
+    }
+    entry.lastAccess = Date.now();
+
+    // An opaque origin keeps the project's code away from the app's cookies and
+    // API. Module scripts from an opaque origin are CORS requests, hence the
+    // allow-origin header; the access key, not a cookie, guards the content.
+    res.setHeader('Content-Security-Policy', 'sandbox allow-scripts allow-forms allow-popups allow-modals');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+
+    // Relative asset URLs only resolve under the preview when the path ends in a slash
+    if (req.path === '/' && !req.originalUrl.split('?')[0].endsWith('/')) {
+      return res.redirect(baseUrl ?? this.urlFor(entry));
+    }
 
-    // Handle SPA routing - serve index.html for any route that doesn't match a file
-    app.get('*', (req, res) => {
-      const indexPath = path.join(tempDir, 'index.html');
-      if (fs.existsSync(indexPath)) {
-        res.sendFile(indexPath);
+    res.setHeader('Cache-Control', 'no-store');
+    const ext = path.extname(req.path);
+    let filePath: string | null;
+    try {
+      filePath = req.path.endsWith('/') ? `${req.path.slice(1)}index.html` : normalizeGeneratedPath(decodeURIComponent(req.path));
+    } catch {
+      // Malformed escapes such as %E0%A4%A
+      return res.status(400).send('Bad request path');
+    }
+
+    if (filePath && MODULE_EXTENSIONS.has(ext) && entry.hashes.has(filePath)) {
+      this.bundle(entry, filePath).then(bundle => res.type('application/javascript').send(bundle.code)).catch(next);
+      return;
+    }
+
+    // Source maps of bundled entries, e.g. src/main.tsx.map
+    const entryPath = filePath?.replace(/\.map$/, '');
+    if (ext === '.map' && entryPath && MODULE_EXTENSIONS.has(path.extname(entryPath)) && entry.hashes.has(entryPath)) {
+      this.bundle(entry, entryPath)
+        .then(bundle => (bundle.map ? res.type('application/json').send(bundle.map) : res.status(404).send('No source map')))
+        .catch(next);
+      return;
+    }
+
+    if (filePath && path.extname(filePath) === '.html' && entry.hashes.has(filePath)) {
+      return this.sendHtml(entry, filePath, res);
+    }
+
+    entry.serveStatic(req, res, () => {
+      // SPA fallback: unknown routes get index.html, missing assets a 404
+      if (ext === '' && entry.hashes.has('index.html')) {
+        this.sendHtml(entry, 'index.html', res);
+      } else if (ext === '') {
+        res.status(404).send('This project has no index.html to preview');
       } else {
-        res.status(404).send('File not found');
+        next();
       }
     });
+  }
 
-    // Try to start server on port 5000, increment if busy
-    const tryPort = (port: number) => {
-      fileServer = app.listen(port, '0.0.0.0', () => {
-        currentPort = port;
-        console.log(`🚀 File server started on port ${port}`);
-        resolve(port);
-      }).on('error', (err: any) => {
-        if (err.code === 'EADDRINUSE') {
-          tryPort(port + 1);
-        } else {
-          reject(err);
-        }
-      });
-    };
-
-    tryPort(5000);
-  });
-}
+  private bundle(entry: PreviewEntry, filePath: string): Promise<PreviewBundle> {
+    let bundle = entry.bundles.get(filePath);
+    if (!bundle) {
+      bundle = bundleModule(entry.dir, filePath);
+      entry.bundles.set(filePath, bundle);
+    }
+    return bundle;
+  }
+
+  private sendHtml(entry: PreviewEntry, filePath: string, res: Response) {
+    const html = fs.readFileSync(path.join(entry.dir, filePath), 'utf8');
+    res.type('html').send(rewritePreviewHtml(html, entry.dir));
+  }
+
+  dispose(projectId: string) {
+    const entry = this.previews.get(projectId);
+    if (!entry) return;
+    this.previews.delete(projectId);
+    fs.rmSync(entry.dir, { recursive: true, force: true });
+    console.log(`🧹 Preview stopped for ${projectId}`);
+  }
+
+  evictIdle(now = Date.now()) {
+    for (const entry of Array.from(this.previews.values())) {
+      if (now - entry.lastAccess > this.idleTimeoutMs) {
+        this.dispose(entry.projectId);
+      }
+    }
+  }
 
-export function stopFileServer() {
-  if (fileServer) {
-    fileServer.close();
-    fileServer = null;
+  shutdown() {
+    clearInterval(this.sweepTimer);
+    for (const projectId of Array.from(this.previews.keys())) {
+      this.dispose(projectId);
+    }
+  }
+
+  // Least recently used previews go first once the cap is reached
+  private evictOverflow() {
+    const entries = Array.from(this.previews.values()).sort((a, b) => a.lastAccess - b.lastAccess);
+    while (entries.length > this.maxPreviews) {
+      this.dispose(entries.shift()!.projectId);
+    }
   }
 }
 
-export function getCurrentPort(): number {
-  return currentPort;
+function removeEmptyParents(dir: string, stopAt: string) {
+  while (dir.startsWith(stopAt) && dir !== stopAt && fs.readdirSync(dir).length === 0) {
+    fs.rmdirSync(dir);
+    dir = path.dirname(dir);
+  }
 }
+
+export const previews = new PreviewManager();
+
+process.once('exit', () => previews.shutdown());
@@ -0,0 +1,283 @@
+import type { Response } from "express";
+import {
+  fileActionSchema,
+  generatedFilePathSchema,
+  generationManifestSchema,
+  hasEditHunks,
+  parseEditHunks,
+  type FileAction,
+  type GeneratedFile,
+  type GenerationEvent,
+  type GenerationManifest,
+} from "@shared/generation";
+
+// Server-Sent Events plumbing for streaming code generation
+
+export function openEventStream(res: Response) {
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  return {
+    send(event: GenerationEvent) {
+      if (res.writableEnded) return;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    },
+    close() {
+      if (!res.writableEnded) res.end();
+    },
+  };
+}
+
+const DEFAULT_FILE_NAMES: Record<string, string> = {
+  html: "index.html",
+  css: "style.css",
+  javascript: "script.js",
+  js: "script.js",
+  jsx: "App.jsx",
+  typescript: "index.ts",
+  ts: "index.ts",
+  tsx: "App.tsx",
+  json: "data.json",
+  python: "main.py",
+  py: "main.py",
+  markdown: "README.md",
+  md: "README.md",
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  html: "html",
+  css: "css",
+  js: "javascript",
+  mjs: "javascript",
+  jsx: "jsx",
+  ts: "typescript",
+  tsx: "tsx",
+  json: "json",
+  py: "python",
+  md: "markdown",
+  yml: "yaml",
+  yaml: "yaml",
+  sql: "sql",
+  sh: "bash",
+};
+
+// Command snippets such as "npm install" are shown to the user, never written as files
+const SNIPPET_LANGUAGES = new Set(["bash", "sh", "shell", "console", "zsh"]);
+
+export function languageFromPath(path: string): string {
+  const ext = path.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_LANGUAGES[ext] ?? "text";
+}
+
+// Legacy naming for untagged blocks: a filename comment on the first line,
+// then the content, then the language tag
+export function inferFileName(firstLine: string, language: string, index: number): string {
+  const fileMatch = firstLine.match(/(?:\/\/|\/\*|#|<!--)\s*(?:filename:|file:)?\s*([a-zA-Z0-9._\/-]+\.[a-zA-Z0-9]+)/i);
+  const commentPath = fileMatch && normalizeGeneratedPath(fileMatch[1]);
+  if (commentPath) return commentPath;
+
+  if (firstLine.includes("<!DOCTYPE html") || firstLine.includes("<html")) return "index.html";
+
+  const defaultName = DEFAULT_FILE_NAMES[language.toLowerCase()];
+  if (defaultName) return defaultName;
+
+  return `file${index + 1}.${language || "txt"}`;
+}
+
+// Strips "./" and leading slashes; returns null for paths escaping the project
+export function normalizeGeneratedPath(path: string): string | null {
+  const normalized = path.trim().replace(/^(\.\/)+/, "").replace(/^\/+/, "");
+  const result = generatedFilePathSchema.safeParse(normalized);
+  return result.success ? result.data : null;
+}
+
+interface FenceInfo {
+  marker: string;
+  language: string;
+  path?: string;
+  action?: string;
+}
+
+// Parses an opening fence such as ```tsx path=src/App.tsx action=update.
+// Longer fences (````) let a file contain ``` blocks of its own.
+function parseFenceInfo(line: string): FenceInfo | null {
+  const match = line.match(/^(`{3,})([\w+#.-]*)((?:\s+[\w-]+=\S+)*)\s*$/);
+  if (!match) return null;
+
+  const info: FenceInfo = { marker: match[1], language: match[2] || "text" };
+  for (const [, key, value] of Array.from(match[3].matchAll(/([\w-]+)=(\S+)/g))) {
+    if (key === "path" || key === "file") info.path = value.replace(/^["']|["']$/g, "");
+    if (key === "action") info.action = value;
+  }
+  return info;
+}
+
+interface OpenFence {
+  marker: string;
+  language: string;
+  path: string | null;
+  action: FileAction;
+  content: string;
+  // Blocks that are not files (shell snippets, invalid paths) still have to be skipped
+  ignored: boolean;
+}
+
+/**
+ * Incrementally turns streamed markdown into file events and, once finished,
+ * a generation manifest. Blocks tagged with path= are placed exactly where
+ * the model asked; untagged blocks fall back to name inference so the local
+ * templates keep working. Files are emitted a line at a time.
+ */
+export class FenceStreamParser {
+  private buffer = "";
+  private fence: OpenFence | null = null;
+  private blockCount = 0;
+  private prose: string[] = [];
+  private files = new Map<string, GeneratedFile>();
+
+  push(text: string): GenerationEvent[] {
+    this.buffer += text;
+    const events: GenerationEvent[] = [];
+
+    let newline = this.buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 1);
+      events.push(...this.processLine(line));
+      newline = this.buffer.indexOf("\n");
+    }
+
+    return events;
+  }
+
+  finish(): GenerationEvent[] {
+    const events: GenerationEvent[] = [];
+    if (this.buffer) {
+      events.push(...this.processLine(this.buffer));
+      this.buffer = "";
+    }
+    // Close a block the model never terminated
+    if (this.fence) {
+      events.push(...this.closeFence());
+    }
+    return events;
+  }
+
+  // Validated manifest of everything parsed so far; call after finish()
+  manifest(): GenerationManifest {
+    return generationManifestSchema.parse({
+      summary: this.prose.join("\n").replace(/\n{3,}/g, "\n\n").trim(),
+      files: Array.from(this.files.values()),
+    });
+  }
+
+  private processLine(line: string): GenerationEvent[] {
+    if (!this.fence) {
+      const info = parseFenceInfo(line);
+      if (!info) {
+        this.prose.push(line);
+        return [];
+      }
+      return this.openFence(info);
+    }
+
+    const closing = line.trim();
+    if (closing.startsWith(this.fence.marker) && /^`+$/.test(closing)) {
+      return this.closeFence();
+    }
+
+    const events: GenerationEvent[] = [];
+    if (!this.fence.path && !this.fence.ignored) {
+      events.push(this.startFile(this.fence, inferFileName(line, this.fence.language, this.blockCount++)));
+    }
+
+    const text = `${line}\n`;
+    this.fence.content += text;
+    if (!this.fence.ignored) {
+      events.push({ type: "file-delta", path: this.fence.path!, text });
+    }
+    return events;
+  }
+
+  private openFence(info: FenceInfo): GenerationEvent[] {
+    const action = fileActionSchema.safeParse(info.action ?? "create");
+    this.fence = {
+      marker: info.marker,
+      language: info.language,
+      path: null,
+      action: action.success ? action.data : "create",
+      content: "",
+      ignored: !info.path && SNIPPET_LANGUAGES.has(info.language.toLowerCase()),
+    };
+
+    if (!info.path) return [];
+
+    const path = normalizeGeneratedPath(info.path);
+    if (!path) {
+      console.warn(`⚠️ Ignoring generated file with unsafe path: ${info.path}`);
+      this.fence.ignored = true;
+      return [];
+    }
+    if (this.fence.language === "text") {
+      this.fence.language = languageFromPath(path);
+    }
+    return [this.startFile(this.fence, path)];
+  }
+
+  private startFile(fence: OpenFence, path: string): GenerationEvent {
+    fence.path = path;
+    return { type: "file-start", path, language: fence.language, action: fence.action };
+  }
+
+  private closeFence(): GenerationEvent[] {
+    const fence = this.fence!;
+    this.fence = null;
+    if (fence.ignored) {
+      this.prose.push(fence.marker + fence.language, fence.content.trimEnd(), fence.marker);
+      return [];
+    }
+
+    const events: GenerationEvent[] = [];
+    if (!fence.path) {
+      events.push(this.startFile(fence, inferFileName("", fence.language, this.blockCount++)));
+    }
+
+    const file: GeneratedFile = {
+      path: fence.path!,
+      language: fence.language,
+      content: fence.action === "delete" ? "" : fence.content,
+      action: fence.action,
+    };
+
+    if (fence.action === "edit") {
+      const edits = parseEditHunks(fence.content);
+      // A block without hunks is treated as the full new contents
+      if (edits.length > 0) {
+        file.content = "";
+        file.edits = edits;
+      } else if (hasEditHunks(fence.content)) {
+        // Every hunk was blank, so there is no change to make
+        console.warn(`⚠️ Skipping edit of ${file.path}: its hunks have nothing to search for`);
+        return events;
+      } else {
+        file.action = "update";
+      }
+    }
+    this.files.set(file.path, file);
+    events.push({ type: "file-end", ...file });
+    return events;
+  }
+}
+
+// Parses a complete (non-streamed) response into its manifest
+export function parseGeneration(text: string): GenerationManifest {
+  const parser = new FenceStreamParser();
+  parser.push(text);
+  parser.finish();
+  return parser.manifest();
+}
@@ -0,0 +1,439 @@
+import Anthropic from "@anthropic-ai/sdk";
+import OpenAI from "openai";
+import fs from "fs";
+import type { RuntimeError } from "@shared/generation";
+
+// Pluggable LLM provider layer shared by /api/ask and /api/claude-proxy.
+// Real providers are used when their API key is configured; otherwise the
+// routes fall back to their offline template engines.
+
+export type LLMRole = "user" | "assistant";
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMRequest {
+  prompt: string;
+  system?: string;
+  history?: LLMMessage[];
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  model?: string;
+}
+
+export interface LLMStreamChunk {
+  text: string;
+  provider: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  stream(request: LLMRequest): AsyncIterable<string>;
+}
+
+export type TemplateGenerator = (prompt: string) => string;
+
+export const PROVIDER_NAMES = ["anthropic", "openai", "local", "scripted"] as const;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+const DEFAULT_MAX_TOKENS = 8192;
+
+export const CODE_GENERATION_SYSTEM_PROMPT = `You are an AI app builder that writes complete, working code.
+Reply with a short explanation followed by every file in its own fenced code block.
+Open each file block with its language and project-relative path, and optionally an action:
+\`\`\`tsx path=src/App.tsx
+\`\`\`css path=styles.css action=update
+\`\`\`text path=old.js action=delete
+Actions are create (default), update or delete; a delete block has an empty body.
+Always write complete file contents, never fragments. If a file itself contains \`\`\`, open its block with four backticks.
+Use plain \`\`\`bash blocks without a path for commands.
+Prefer self-contained HTML/CSS/JavaScript unless the user asks for a specific stack.
+For questions that do not need code, answer conversationally without code blocks.`;
+
+const EDITING_INSTRUCTIONS = `The user is iterating on an existing project whose files are listed below.
+Change existing files with action=edit blocks made of one or more hunks:
+\`\`\`css path=styles.css action=edit
+<<<<<<< SEARCH
+header { color: red; }
+=======
+header { color: blue; }
+>>>>>>> REPLACE
+\`\`\`
+SEARCH text must match the current file exactly, including indentation, and be unique within it.
+Only use action=update to rewrite a whole file, and create for new files.`;
+
+const FIX_INSTRUCTIONS = `The project's preview threw the runtime error below. Find its cause in the
+project files and fix it with the smallest change that works, using action=edit blocks.
+Do not rewrite or restyle unrelated code. Start your reply with one sentence naming the cause.`;
+
+const MAX_CONTEXT_CHARS = 120_000;
+const MAX_HISTORY_MESSAGES = 20;
+
+export interface ProjectContext {
+  files?: Record<string, { content: string; type?: string }>;
+  activeFile?: string | null;
+  history?: LLMMessage[];
+  runtimeError?: RuntimeError;
+}
+
+function describeRuntimeError(error: RuntimeError): string {
+  return [
+    `Error: ${error.message}`,
+    error.file ? `Location: ${error.file}${error.line ? `:${error.line}` : ""}` : "",
+    error.stack ? `Stack:\n${error.stack}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Files the error points at rank above the active file, which ranks above the rest
+function contextPriority(path: string, context: ProjectContext): number {
+  const error = context.runtimeError;
+  if (error?.file === path) return 3;
+  if (error && `${error.message}\n${error.stack ?? ""}`.includes(path)) return 2;
+  return path === context.activeFile ? 1 : 0;
+}
+
+// Adds the current project files to the system prompt so follow-up prompts
+// like "make the header blue" can target what already exists
+export function buildSystemPrompt(context: ProjectContext = {}): string {
+  const entries = Object.entries(context.files ?? {});
+  const fix = context.runtimeError
+    ? [FIX_INSTRUCTIONS, "```text\n" + describeRuntimeError(context.runtimeError) + "\n```"]
+    : [];
+  if (entries.length === 0) return [CODE_GENERATION_SYSTEM_PROMPT, ...fix].join("\n\n");
+
+  // The most relevant files go first so they survive truncation
+  entries.sort(([a], [b]) => contextPriority(b, context) - contextPriority(a, context));
+
+  let budget = MAX_CONTEXT_CHARS;
+  const blocks: string[] = [];
+  const omitted: string[] = [];
+  const binary: string[] = [];
+  for (const [path, file] of entries) {
+    // Base64 image data is no use to the model; it only needs to know the asset exists
+    if (file.type === "binary") {
+      binary.push(path);
+      continue;
+    }
+    if (file.content.length > budget) {
+      omitted.push(path);
+      continue;
+    }
+    budget -= file.content.length;
+    const fence = file.content.includes("```") ? "````" : "```";
+    blocks.push(`${fence} path=${path}\n${file.content}\n${fence}`);
+  }
+
+  return [
+    CODE_GENERATION_SYSTEM_PROMPT,
+    EDITING_INSTRUCTIONS,
+    context.activeFile ? `The user currently has ${context.activeFile} open.` : "",
+    ...fix,
+    "Current project files:",
+    ...blocks,
+    omitted.length > 0 ? `Omitted for length: ${omitted.join(", ")}` : "",
+    binary.length > 0 ? `Binary assets (content not shown): ${binary.join(", ")}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function buildGenerationRequest(prompt: string, context: ProjectContext = {}, signal?: AbortSignal): LLMRequest {
+  return {
+    prompt,
+    system: buildSystemPrompt(context),
+    history: (context.history ?? []).slice(-MAX_HISTORY_MESSAGES),
+    signal,
+  };
+}
+
+// Providers expect the conversation to open with the user and alternate roles
+function toMessages(request: LLMRequest): LLMMessage[] {
+  const messages: LLMMessage[] = [];
+  for (const message of [...(request.history ?? []), { role: "user" as const, content: request.prompt }]) {
+    const previous = messages[messages.length - 1];
+    if (!previous && message.role === "assistant") continue;
+    if (previous?.role === message.role) {
+      previous.content += `\n\n${message.content}`;
+    } else {
+      messages.push({ ...message });
+    }
+  }
+  return messages;
+}
+
+// Replays already-complete text as a token stream for the offline providers
+async function* chunkText(text: string, signal?: AbortSignal, size = 48): AsyncIterable<string> {
+  for (let i = 0; i < text.length; i += size) {
+    signal?.throwIfAborted();
+    yield text.slice(i, i + size);
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+  private client: Anthropic;
+
+  constructor(
+    apiKey: string,
+    private model: string = process.env.ANTHROPIC_MODEL || "claude-3-7-sonnet-latest",
+  ) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const message = await this.client.messages.create(
+      {
+        model: this.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        system: request.system,
+        messages: toMessages(request),
+      },
+      { signal: request.signal },
+    );
+
+    const text = message.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+
+    return { text, provider: this.name, model: message.model };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const stream = this.client.messages.stream(
+      {
+        model: this.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        system: request.system,
+        messages: toMessages(request),
+      },
+      { signal: request.signal },
+    );
+
+    for await (const event of stream) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        yield event.delta.text;
+      }
+    }
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+
+  constructor(
+    apiKey: string,
+    private model: string = process.env.OPENAI_MODEL || "gpt-4o",
+  ) {
+    this.client = new OpenAI({ apiKey, baseURL: process.env.OPENAI_BASE_URL });
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const completion = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        messages: [
+          ...(request.system ? [{ role: "system" as const, content: request.system }] : []),
+          ...toMessages(request),
+        ],
+      },
+      { signal: request.signal },
+    );
+
+    return {
+      text: completion.choices[0]?.message?.content ?? "",
+      provider: this.name,
+      model: completion.model,
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        stream: true,
+        messages: [
+          ...(request.system ? [{ role: "system" as const, content: request.system }] : []),
+          ...toMessages(request),
+        ],
+      },
+      { signal: request.signal },
+    );
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+}
+
+// Wraps a route's keyword-matching template engine so it can stand in for a model
+export class LocalTemplateProvider implements LLMProvider {
+  readonly name = "local";
+
+  constructor(private template: TemplateGenerator) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    return { text: this.template(request.prompt), provider: this.name };
+  }
+
+  stream(request: LLMRequest): AsyncIterable<string> {
+    return chunkText(this.template(request.prompt), request.signal);
+  }
+}
+
+// Deterministic fake for exercising the whole pipeline without network access.
+// Replays the scripted responses in order (repeating the last one) and records
+// every request it receives.
+export class ScriptedProvider implements LLMProvider {
+  readonly name = "scripted";
+  readonly requests: LLMRequest[] = [];
+  private index = 0;
+
+  constructor(private script: string[] | ((request: LLMRequest) => string)) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+
+    if (typeof this.script === "function") {
+      return { text: this.script(request), provider: this.name };
+    }
+
+    const text = this.script[Math.min(this.index, this.script.length - 1)] ?? "";
+    this.index++;
+    return { text, provider: this.name };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const { text } = await this.generate(request);
+    yield* chunkText(text, request.signal);
+  }
+}
+
+let providerOverride: LLMProvider | null = null;
+let scriptedFromEnv: ScriptedProvider | null = null;
+let anthropicProvider: AnthropicProvider | null = null;
+let openaiProvider: OpenAIProvider | null = null;
+
+// Forces every route onto the given provider (pass null to restore normal selection)
+export function setProviderOverride(provider: LLMProvider | null) {
+  providerOverride = provider;
+}
+
+export function isProviderName(name: unknown): name is ProviderName {
+  return typeof name === "string" && (PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+// LLM_SCRIPT_FILE points at a JSON array of canned responses for the scripted provider
+function loadScriptedProvider(): ScriptedProvider | null {
+  if (scriptedFromEnv) return scriptedFromEnv;
+
+  const scriptFile = process.env.LLM_SCRIPT_FILE;
+  if (!scriptFile) return null;
+
+  const script = JSON.parse(fs.readFileSync(scriptFile, "utf-8"));
+  if (!Array.isArray(script) || !script.every((entry) => typeof entry === "string")) {
+    throw new Error(`LLM_SCRIPT_FILE ${scriptFile} must contain a JSON array of strings`);
+  }
+
+  scriptedFromEnv = new ScriptedProvider(script);
+  return scriptedFromEnv;
+}
+
+function defaultProviderName(): ProviderName {
+  if (isProviderName(process.env.LLM_PROVIDER)) return process.env.LLM_PROVIDER;
+  if (process.env.ANTHROPIC_API_KEY) return "anthropic";
+  if (process.env.OPENAI_API_KEY) return "openai";
+  return "local";
+}
+
+/**
+ * Picks the provider for a request: an explicit override wins, then the
+ * provider named in the request, then LLM_PROVIDER, then whichever API key
+ * is configured. Providers that are not configured fall back to the
+ * route's local template engine.
+ */
+export function resolveProvider(requested: ProviderName | undefined, template: TemplateGenerator): LLMProvider {
+  if (providerOverride) return providerOverride;
+
+  const name = requested ?? defaultProviderName();
+
+  switch (name) {
+    case "anthropic":
+      if (process.env.ANTHROPIC_API_KEY) {
+        anthropicProvider ??= new AnthropicProvider(process.env.ANTHROPIC_API_KEY);
+        return anthropicProvider;
+      }
+      break;
+    case "openai":
+      if (process.env.OPENAI_API_KEY) {
+        openaiProvider ??= new OpenAIProvider(process.env.OPENAI_API_KEY);
+        return openaiProvider;
+      }
+      break;
+    case "scripted": {
+      const scripted = loadScriptedProvider();
+      if (scripted) return scripted;
+      break;
+    }
+  }
+
+  return new LocalTemplateProvider(template);
+}
+
+// Runs the request, dropping back to the template engine if the model call fails
+export async function generateWithFallback(
+  provider: LLMProvider,
+  request: LLMRequest,
+  template: TemplateGenerator,
+): Promise<LLMResponse> {
+  try {
+    return await provider.generate(request);
+  } catch (error) {
+    if (provider instanceof LocalTemplateProvider || request.signal?.aborted) {
+      throw error;
+    }
+    console.warn(`⚠️ ${provider.name} provider failed, falling back to local templates:`, error);
+    return new LocalTemplateProvider(template).generate(request);
+  }
+}
+
+// Streaming counterpart of generateWithFallback. The fallback only applies
+// while nothing has been emitted yet; a failure mid-stream is rethrown.
+export async function* streamWithFallback(
+  provider: LLMProvider,
+  request: LLMRequest,
+  template: TemplateGenerator,
+): AsyncIterable<LLMStreamChunk> {
+  let emitted = false;
+
+  try {
+    for await (const text of provider.stream(request)) {
+      emitted = true;
+      yield { text, provider: provider.name };
+    }
+  } catch (error) {
+    if (emitted || provider instanceof LocalTemplateProvider || request.signal?.aborted) {
+      throw error;
+    }
+    console.warn(`⚠️ ${provider.name} provider failed, falling back to local templates:`, error);
+
+    const local = new LocalTemplateProvider(template);
+    for await (const text of local.stream(request)) {
+      yield { text, provider: local.name };
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { isNotNull, eq } from "drizzle-orm";
+import { projects, projectFiles } from "@shared/schema";
+import { generatedFilePathSchema } from "@shared/generation";
+import { db, pool } from "./db";
+import { filesFromRecord } from "./project-files";
+
+// One-off migration: moves the legacy projects.files jsonb column into
+// project_files rows. Run after `npm run db:push` with `npm run db:migrate-files`.
+// Projects that already have rows keep them; the jsonb copy is cleared either way,
+// so running the script twice is harmless.
+
+async function migrateProjectFiles() {
+  if (!db) {
+    throw new Error("DATABASE_URL must be set to migrate project files");
+  }
+
+  const legacy = await db
+    .select({ id: projects.id, files: projects.files })
+    .from(projects)
+    .where(isNotNull(projects.files));
+
+  console.log(`📦 Found ${legacy.length} project(s) with inline files`);
+
+  for (const project of legacy) {
+    await db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ id: projectFiles.id })
+        .from(projectFiles)
+        .where(eq(projectFiles.projectId, project.id))
+        .limit(1);
+
+      if (existing.length === 0 && project.files && typeof project.files === "object") {
+        const rows = filesFromRecord(project.id, project.files as Record<string, unknown>);
+        const valid = rows.filter((row) => generatedFilePathSchema.safeParse(row.filePath).success);
+        if (valid.length < rows.length) {
+          console.warn(`⚠️ ${project.id}: skipped ${rows.length - valid.length} file(s) with unsafe paths`);
+        }
+        if (valid.length > 0) {
+          await tx.insert(projectFiles).values(valid);
+        }
+        console.log(`✅ ${project.id}: moved ${valid.length} file(s)`);
+      } else {
+        console.log(`⏭️ ${project.id}: already has project_files rows`);
+      }
+
+      await tx.update(projects).set({ files: null }).where(eq(projects.id, project.id));
+    });
+  }
+}
+
+migrateProjectFiles()
+  .catch((error) => {
+    console.error("❌ Project file migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool?.end());
@@ -0,0 +1,143 @@
+import { PREVIEW_CONSOLE_SOURCE, PREVIEW_HOST_SOURCE } from "@shared/preview-console";
+
+// Injected into every previewed page ahead of its own scripts. It forwards console
+// calls, uncaught errors and unhandled rejections to the editor window (see
+// shared/preview-console.ts) and leaves the original console behaviour intact.
+// It also swaps changed stylesheets in place when the editor asks it to.
+// Kept as plain ES5 so it runs before, and independently of, the project's code,
+// and without line comments so it can be injected on a single line.
+
+export const PREVIEW_BRIDGE_SCRIPT = `(function () {
+  if (window.parent === window) return;
+  var SOURCE = ${JSON.stringify(PREVIEW_CONSOLE_SOURCE)};
+  var HOST_SOURCE = ${JSON.stringify(PREVIEW_HOST_SOURCE)};
+  var MAX_LENGTH = 10000;
+
+  function format(value) {
+    if (typeof value === "string") return value;
+    if (value instanceof Error) return value.stack || String(value);
+    if (typeof value === "function") return "[Function " + (value.name || "anonymous") + "]";
+    if (typeof value === "undefined") return "undefined";
+    if (typeof value === "bigint") return value + "n";
+    try {
+      var seen = [];
+      return JSON.stringify(value, function (key, item) {
+        if (typeof item === "bigint") return item + "n";
+        if (typeof item === "object" && item !== null) {
+          if (seen.indexOf(item) !== -1) return "[Circular]";
+          seen.push(item);
+        }
+        return item;
+      });
+    } catch (e) {
+      return String(value);
+    }
+  }
+
+  function frames(stack) {
+    var result = [];
+    String(stack || "").split("\\n").forEach(function (line) {
+      var match = line.match(/(https?:\\/\\/[^\\s()]+?):(\\d+):(\\d+)\\)?\\s*$/);
+      if (match) result.push({ url: match[1], line: Number(match[2]), column: Number(match[3]) });
+    });
+    return result;
+  }
+
+  function send(level, kind, message, stack, location) {
+    try {
+      window.parent.postMessage({
+        source: SOURCE,
+        level: level,
+        kind: kind,
+        message: message.slice(0, MAX_LENGTH),
+        stack: stack ? String(stack).slice(0, MAX_LENGTH) : undefined,
+        location: location
+      }, "*");
+    } catch (e) {
+      /* The editor window went away; nothing left to report to */
+    }
+  }
+
+  ["log", "info", "warn", "error", "debug"].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      /* Frame 0 is this wrapper, frame 1 the code that called console */
+      var caller = frames(new Error().stack)[1];
+      var error = args.filter(function (arg) { return arg instanceof Error; })[0];
+      send(level, "console", args.map(format).join(" "), error && error.stack, caller);
+      return original.apply(console, arguments);
+    };
+  });
+
+  window.addEventListener("error", function (event) {
+    var error = event.error;
+    var location = event.filename ? { url: event.filename, line: event.lineno, column: event.colno } : undefined;
+    send("error", "error", event.message || format(error), error && error.stack, location);
+  });
+
+  window.addEventListener("unhandledrejection", function (event) {
+    var reason = event.reason;
+    send("error", "unhandledrejection", "Unhandled promise rejection: " + format(reason), reason && reason.stack, frames(reason && reason.stack)[0]);
+  });
+
+  window.addEventListener("message", function (event) {
+    var data = event.data;
+    if (event.source !== window.parent || !data || data.source !== HOST_SOURCE || data.type !== "stylesheets-changed") return;
+
+    var links = Array.prototype.slice.call(document.querySelectorAll('link[rel="stylesheet"]'));
+    var missing = data.urls.filter(function (url) {
+      var matches = links.filter(function (link) { return link.href.split(/[?#]/)[0] === url; });
+      matches.forEach(function (link) {
+        /* The old sheet stays until the new one loads, so the page never flashes unstyled */
+        var next = link.cloneNode();
+        next.href = url + "?v=" + Date.now();
+        next.onload = next.onerror = function () { if (link.parentNode) link.parentNode.removeChild(link); };
+        link.parentNode.insertBefore(next, link.nextSibling);
+      });
+      return matches.length === 0;
+    });
+    /* CSS imported from scripts or other stylesheets only updates with a reload */
+    if (missing.length > 0) window.location.reload();
+  });
+})();`;
+
+// Injected ahead of the bridge. The sandbox gives preview pages an opaque
+// origin, where reading localStorage or sessionStorage throws a SecurityError;
+// generated apps use both freely, so each missing one is replaced with an
+// in-memory Storage that lasts as long as the page. Same constraints as above.
+
+export const PREVIEW_STORAGE_SHIM = `(function () {
+  function available(name) {
+    try {
+      var storage = window[name];
+      storage.setItem("__preview__", "1");
+      storage.removeItem("__preview__");
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  function memoryStorage() {
+    var items = Object.create(null);
+    var storage = {
+      getItem: function (key) { key = String(key); return key in items ? items[key] : null; },
+      setItem: function (key, value) { items[String(key)] = String(value); },
+      removeItem: function (key) { delete items[String(key)]; },
+      clear: function () { items = Object.create(null); },
+      key: function (index) { var keys = Object.keys(items); return index >= 0 && index < keys.length ? keys[index] : null; }
+    };
+    Object.defineProperty(storage, "length", { get: function () { return Object.keys(items).length; } });
+    return storage;
+  }
+
+  ["localStorage", "sessionStorage"].forEach(function (name) {
+    if (available(name)) return;
+    try {
+      Object.defineProperty(window, name, { configurable: true, enumerable: true, value: memoryStorage() });
+    } catch (e) {
+      /* Left as it was; the page sees the browser's own error */
+    }
+  });
+})();`;
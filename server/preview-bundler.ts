@@ -0,0 +1,182 @@
+import path from "path";
+import fs from "fs";
+import { build, type Plugin } from "esbuild";
+import { PREVIEW_BRIDGE_SCRIPT, PREVIEW_STORAGE_SHIM } from "./preview-bridge";
+
+// Makes React/TypeScript projects previewable without an npm install: module
+// entries such as src/main.tsx are bundled with esbuild from the preview
+// directory, and bare imports (react, react-dom/client, ...) are loaded from
+// the esm.sh CDN at the versions listed in the project's package.json.
+
+export const MODULE_EXTENSIONS = new Set([".ts", ".tsx", ".jsx", ".mts"]);
+
+const CDN_URL = "https://esm.sh";
+const TAILWIND_CDN = "https://cdn.tailwindcss.com";
+
+interface PackageVersions {
+  [name: string]: string;
+}
+
+function readDependencies(dir: string): PackageVersions {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(dir, "package.json"), "utf8"));
+    return { ...pkg.devDependencies, ...pkg.dependencies };
+  } catch {
+    return {};
+  }
+}
+
+// "react-dom/client" -> ["react-dom", "/client"]; "@scope/pkg/x" -> ["@scope/pkg", "/x"]
+function splitSpecifier(specifier: string): [string, string] {
+  const parts = specifier.split("/");
+  const length = specifier.startsWith("@") ? 2 : 1;
+  const name = parts.slice(0, length).join("/");
+  const subpath = parts.slice(length).join("/");
+  return [name, subpath ? `/${subpath}` : ""];
+}
+
+function cdnPlugin(dir: string): Plugin {
+  const versions = readDependencies(dir);
+  const versioned = (name: string) => (versions[name] ? `${name}@${versions[name]}` : name);
+  // Every package must share the page's single copy of React, or hooks break
+  const sharedDeps = ["react", "react-dom"].filter((name) => versions[name]).map(versioned);
+
+  return {
+    name: "preview-cdn",
+    setup(pluginBuild) {
+      // tsconfig-style "@/..." alias for src/, as used by the generated Vite projects
+      pluginBuild.onResolve({ filter: /^@\// }, (args) =>
+        pluginBuild.resolve(`./${args.path.slice(2)}`, { resolveDir: path.join(dir, "src"), kind: args.kind }),
+      );
+
+      pluginBuild.onResolve({ filter: /^[^./]/ }, (args) => {
+        const [name, subpath] = splitSpecifier(args.path);
+        const query = name === "react" || sharedDeps.length === 0 ? "" : `?deps=${sharedDeps.join(",")}`;
+        return { path: `${CDN_URL}/${versioned(name)}${subpath}${query}`, external: true };
+      });
+    },
+  };
+}
+
+// Keeps bundling inside the preview directory: project code is untrusted, and
+// a relative import such as "../../../.data/storage.json" would otherwise be
+// inlined into the served bundle. Absolute imports are refused, and every
+// loaded file is checked by its real path so symlinks cannot lead out either.
+function confinePlugin(dir: string): Plugin {
+  const within = (root: string, target: string) => target === root || target.startsWith(root + path.sep);
+  const root = path.resolve(dir);
+  const realRoot = fs.realpathSync(dir);
+
+  return {
+    name: "preview-confine",
+    setup(pluginBuild) {
+      pluginBuild.onResolve({ filter: /^\.|^\// }, (args) => {
+        if (args.kind === "entry-point") return undefined;
+        if (path.isAbsolute(args.path)) {
+          return { errors: [{ text: `Absolute imports are not allowed in previews: ${args.path}` }] };
+        }
+        const target = path.resolve(args.resolveDir, args.path);
+        if (!within(root, target)) {
+          return { errors: [{ text: `Imports outside the project are not allowed: ${args.path}` }] };
+        }
+        return undefined;
+      });
+
+      pluginBuild.onLoad({ filter: /.*/, namespace: "file" }, (args) => {
+        let real: string;
+        try {
+          real = fs.realpathSync(args.path);
+        } catch {
+          return undefined;
+        }
+        if (!within(realRoot, real)) {
+          return { errors: [{ text: `Imports outside the project are not allowed: ${path.relative(dir, args.path)}` }] };
+        }
+        return undefined;
+      });
+    },
+  };
+}
+
+// Build errors are shown in the page instead of leaving it blank
+function errorModule(message: string): string {
+  return `console.error(${JSON.stringify(message)});
+document.body.innerHTML = '<pre style="color:#b91c1c;background:#fef2f2;padding:16px;margin:0;white-space:pre-wrap;font:13px monospace"></pre>';
+document.body.firstChild.textContent = ${JSON.stringify(`Preview build failed\n\n${message}`)};
+`;
+}
+
+export interface PreviewBundle {
+  code: string;
+  // Source map served next to the bundle, so stack traces map back to project files
+  map: string | null;
+}
+
+export async function bundleModule(dir: string, entryPath: string): Promise<PreviewBundle> {
+  try {
+    const result = await build({
+      absWorkingDir: dir,
+      entryPoints: [entryPath],
+      bundle: true,
+      write: false,
+      // Output mirrors the entry's location, so source map paths resolve against the bundle URL
+      outdir: ".",
+      outbase: ".",
+      format: "esm",
+      target: "es2020",
+      jsx: "automatic",
+      sourcemap: "external",
+      logLevel: "silent",
+      loader: { ".svg": "dataurl", ".png": "dataurl", ".jpg": "dataurl", ".gif": "dataurl" },
+      define: { "process.env.NODE_ENV": '"development"' },
+      plugins: [confinePlugin(dir), cdnPlugin(dir)],
+    });
+
+    const js = result.outputFiles.find((file) => file.path.endsWith(".js"))?.text ?? "";
+    const css = result.outputFiles.find((file) => file.path.endsWith(".css"))?.text;
+    const map = result.outputFiles.find((file) => file.path.endsWith(".js.map"))?.text ?? null;
+    const mapUrl = `${path.basename(entryPath)}.map`;
+    if (!css) {
+      return { code: `${js}//# sourceMappingURL=${mapUrl}\n`, map };
+    }
+
+    // CSS imported from modules is injected by the bundle itself, on one extra
+    // leading line that the source map has to skip
+    const injectCss = `{ const style = document.createElement('style'); style.textContent = ${JSON.stringify(css)}; document.head.appendChild(style); }\n`;
+    let shiftedMap = map;
+    if (map) {
+      const parsed = JSON.parse(map);
+      parsed.mappings = `;${parsed.mappings}`;
+      shiftedMap = JSON.stringify(parsed);
+    }
+    return { code: `${injectCss}${js}//# sourceMappingURL=${mapUrl}\n`, map: shiftedMap };
+  } catch (error) {
+    const errors = (error as { errors?: { text: string; location?: { file: string; line: number } | null }[] }).errors;
+    const message = errors?.length
+      ? errors.map((e) => (e.location ? `${e.location.file}:${e.location.line}: ${e.text}` : e.text)).join("\n")
+      : (error as Error).message;
+    return { code: errorModule(message), map: null };
+  }
+}
+
+// Root-relative URLs ("/src/main.tsx") would escape /preview/:id/, so they are
+// made relative; projects configured for Tailwind get its CDN build, and every
+// page gets the console bridge ahead of its own scripts
+export function rewritePreviewHtml(html: string, dir: string): string {
+  let result = html.replace(/(\s(?:src|href)=["'])\/(?!\/)/g, "$1");
+
+  const usesTailwind = ["tailwind.config.js", "tailwind.config.ts", "tailwind.config.cjs"].some((name) =>
+    fs.existsSync(path.join(dir, name)),
+  );
+  // Injected scripts stay on existing lines, so line numbers reported for
+  // inline scripts still match the project's file
+  if (usesTailwind && !result.includes(TAILWIND_CDN)) {
+    const script = `<script src="${TAILWIND_CDN}"></script>`;
+    result = /<\/head>/i.test(result) ? result.replace(/<\/head>/i, `${script}</head>`) : script + result;
+  }
+
+  const scripts = [PREVIEW_STORAGE_SHIM, PREVIEW_BRIDGE_SCRIPT].map((script) => `<script>${script.replace(/\n\s*/g, " ")}</script>`).join("");
+  result = /<head(\s[^>]*)?>/i.test(result) ? result.replace(/<head(\s[^>]*)?>/i, (head) => head + scripts) : scripts + result;
+
+  return result;
+}
@@ -0,0 +1,166 @@
+import archiver from "archiver";
+import type { Response } from "express";
+import type { Project, ProjectFile } from "@shared/schema";
+import { generatedFilePathSchema } from "@shared/generation";
+import { BINARY_FILE_TYPE } from "./project-files";
+
+// ZIP export of a project. The saved files go in as they are; a package.json,
+// README and build config matching the project's language/framework are added
+// only where the project does not already provide its own.
+
+export type ProjectKind = "react" | "node" | "python" | "static" | "other";
+
+interface ExportFile {
+  path: string;
+  // Binary files are stored as base64 and exported as their raw bytes
+  content: string | Buffer;
+}
+
+export function detectProjectKind(project: Pick<Project, "language" | "framework">, paths: string[]): ProjectKind {
+  const language = project.language.toLowerCase();
+  const framework = (project.framework ?? "").toLowerCase();
+  const hasExtension = (...extensions: string[]) => paths.some((path) => extensions.some((ext) => path.endsWith(ext)));
+
+  if (/react|vite|next/.test(framework) || language === "react" || hasExtension(".jsx", ".tsx")) return "react";
+  if (language === "python" || hasExtension(".py")) return "python";
+  if (/express|node|fastify|koa/.test(framework) || language === "node") return "node";
+  if (paths.includes("index.html") || language === "html") return "static";
+  if (language === "javascript" || language === "typescript") return "node";
+  return "other";
+}
+
+// Project names are free text, so they are escaped before going into generated HTML
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+export function packageName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^[-._]+|-+$/g, "") || "project";
+}
+
+function reactPackageJson(name: string, typescript: boolean) {
+  return {
+    name,
+    version: "1.0.0",
+    private: true,
+    type: "module",
+    scripts: {
+      dev: "vite",
+      build: "vite build",
+      preview: "vite preview",
+    },
+    dependencies: {
+      react: "^18.2.0",
+      "react-dom": "^18.2.0",
+    },
+    devDependencies: {
+      "@vitejs/plugin-react": "^4.2.1",
+      vite: "^5.2.0",
+      ...(typescript && {
+        "@types/react": "^18.2.66",
+        "@types/react-dom": "^18.2.22",
+        typescript: "^5.2.2",
+      }),
+    },
+  };
+}
+
+function nodePackageJson(name: string, paths: string[], typescript: boolean) {
+  const entry =
+    ["server.ts", "index.ts", "src/index.ts", "server.js", "index.js", "src/index.js", "app.js"].find((path) =>
+      paths.includes(path),
+    ) ?? (typescript ? "index.ts" : "index.js");
+
+  return {
+    name,
+    version: "1.0.0",
+    private: true,
+    type: "module",
+    scripts: {
+      start: typescript ? `tsx ${entry}` : `node ${entry}`,
+    },
+    ...(typescript && { devDependencies: { tsx: "^4.7.0", typescript: "^5.2.2" } }),
+  };
+}
+
+function readme(project: Project, kind: ProjectKind): string {
+  const steps: Record<ProjectKind, string> = {
+    react: "```bash\nnpm install\nnpm run dev\n```",
+    node: "```bash\nnpm install\nnpm start\n```",
+    python: "```bash\npython main.py\n```",
+    static: "Open `index.html` in a browser, or serve the folder with any static file server.",
+    other: "See the project files for how to run it.",
+  };
+
+  return [
+    `# ${project.name}`,
+    "",
+    project.description || project.prompt,
+    "",
+    "## Getting started",
+    "",
+    steps[kind],
+    "",
+  ].join("\n");
+}
+
+export function buildExportFiles(project: Project, files: ProjectFile[]): ExportFile[] {
+  // Paths are validated when saved; rows from before that are left out rather than written outside the folder
+  const result: ExportFile[] = files
+    .filter((file) => generatedFilePathSchema.safeParse(file.filePath).success)
+    .map((file) => ({
+      path: file.filePath,
+      content: file.language === BINARY_FILE_TYPE ? Buffer.from(file.content, "base64") : file.content,
+    }));
+  const paths = result.map((file) => file.path);
+  const kind = detectProjectKind(project, paths);
+  const typescript = paths.some((path) => /\.tsx?$/.test(path));
+  const name = packageName(project.name);
+  const addMissing = (path: string, content: string) => {
+    if (!paths.includes(path)) result.push({ path, content });
+  };
+
+  if (kind === "react") {
+    addMissing("package.json", JSON.stringify(reactPackageJson(name, typescript), null, 2) + "\n");
+    if (!paths.some((path) => /^vite\.config\.(ts|js|mjs)$/.test(path))) {
+      addMissing(
+        typescript ? "vite.config.ts" : "vite.config.js",
+        'import { defineConfig } from "vite";\nimport react from "@vitejs/plugin-react";\n\nexport default defineConfig({\n  plugins: [react()],\n});\n',
+      );
+    }
+    const entry = ["src/main.tsx", "src/main.jsx", "src/index.tsx", "src/index.jsx"].find((path) => paths.includes(path));
+    if (entry) {
+      addMissing(
+        "index.html",
+        `<!DOCTYPE html>\n<html lang="en">\n  <head>\n    <meta charset="UTF-8" />\n    <meta name="viewport" content="width=device-width, initial-scale=1.0" />\n    <title>${escapeHtml(project.name)}</title>\n  </head>\n  <body>\n    <div id="root"></div>\n    <script type="module" src="/${entry}"></script>\n  </body>\n</html>\n`,
+      );
+    }
+  } else if (kind === "node") {
+    addMissing("package.json", JSON.stringify(nodePackageJson(name, paths, typescript), null, 2) + "\n");
+  }
+
+  addMissing("README.md", readme(project, kind));
+  return result;
+}
+
+// Streams the ZIP as an attachment; files sit under a top-level folder named after the project
+export async function sendProjectZip(res: Response, project: Project, files: ProjectFile[]) {
+  const folder = packageName(project.name);
+  const archive = archiver("zip", { zlib: { level: 9 } });
+
+  archive.on("warning", (error) => console.warn("⚠️ Export warning:", error));
+  archive.on("error", (error) => {
+    console.error("❌ Export failed:", error);
+    res.destroy(error);
+  });
+
+  res.attachment(`${folder}.zip`);
+  res.type("application/zip");
+  archive.pipe(res);
+
+  for (const file of buildExportFiles(project, files)) {
+    archive.append(file.content, { name: `${folder}/${file.path}` });
+  }
+
+  await archive.finalize();
+}
@@ -0,0 +1,54 @@
+import type { InsertProjectFile, ProjectFile } from "@shared/schema";
+import { languageFromPath } from "./generation-stream";
+
+// Conversions between project_files rows and the { path: { content, type } }
+// map the editor and the generation routes work with
+
+export type FileRecord = Record<string, { content: string; type?: string }>;
+
+// Language of files whose content is base64, e.g. uploaded images
+export const BINARY_FILE_TYPE = "binary";
+
+export function createFileId(): string {
+  return `file_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function buildProjectFile(
+  projectId: string,
+  filePath: string,
+  content: string,
+  language?: string | null,
+): InsertProjectFile {
+  return {
+    id: createFileId(),
+    projectId,
+    fileName: filePath.split("/").pop()!,
+    filePath,
+    content,
+    language: language || languageFromPath(filePath),
+    size: Buffer.byteLength(content, "utf8"),
+  };
+}
+
+// Older clients stored bare strings instead of { content, type } objects
+export function filesFromRecord(projectId: string, files: Record<string, unknown>): InsertProjectFile[] {
+  return Object.entries(files).map(([filePath, file]) => {
+    if (typeof file === "string") {
+      return buildProjectFile(projectId, filePath, file);
+    }
+    const { content, type } = (file ?? {}) as { content?: unknown; type?: unknown };
+    return buildProjectFile(
+      projectId,
+      filePath,
+      typeof content === "string" ? content : "",
+      typeof type === "string" ? type : undefined,
+    );
+  });
+}
+
+export function filesToRecord(files: ProjectFile[]): FileRecord {
+  return files.reduce<FileRecord>((acc, file) => {
+    acc[file.filePath] = { content: file.content, type: file.language };
+    return acc;
+  }, {});
+}
@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { gzipSync } from "zlib";
+import archiver from "archiver";
+import tar from "tar-stream";
+import { extractArchive, importFolder, ImportError } from "./project-import";
+
+// Archive import: entry path checks, oversized entries and what is left out
+
+async function zipArchive(entries: [string, string][]) {
+  const archive = archiver("zip");
+  const chunks: Buffer[] = [];
+  archive.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const ended = new Promise((resolve) => archive.on("end", resolve));
+  for (const [name, content] of entries) archive.append(content, { name });
+  await archive.finalize();
+  await ended;
+  return Buffer.concat(chunks);
+}
+
+// tar-stream keeps names as given, where archiver would clean up "../" paths
+async function tarGzArchive(entries: [string, string][]) {
+  const pack = tar.pack();
+  for (const [name, content] of entries) pack.entry({ name }, content);
+  pack.finalize();
+  const chunks: Buffer[] = [];
+  for await (const chunk of pack) chunks.push(chunk as Buffer);
+  return gzipSync(Buffer.concat(chunks));
+}
+
+const importError = (status: number, message: RegExp) => (error: unknown) =>
+  error instanceof ImportError && error.status === status && message.test(error.message);
+
+test("rejects an archive entry that escapes the project folder", async () => {
+  await assert.rejects(extractArchive(await tarGzArchive([["app/index.html", "<h1>Hi</h1>"], ["../evil.txt", "x"]])), importError(400, /escapes the project folder/));
+  assert.throws(() => importFolder({ "/etc/passwd": "x" }), importError(400, /escapes the project folder/));
+});
+
+test("rejects an archive with the same path twice", async () => {
+  await assert.rejects(extractArchive(await tarGzArchive([["a.txt", "one"], ["./a.txt", "two"]])), importError(400, /more than once/));
+});
+
+test("skips a tar.gz entry over the size limit and keeps reading the rest", async () => {
+  const result = await extractArchive(
+    await tarGzArchive([
+      ["app/big.txt", "a".repeat(2 * 1024 * 1024)],
+      ["app/index.html", "<h1>Hi</h1>"],
+    ]),
+  );
+  assert.deepEqual(
+    result.files.map((file) => file.path),
+    ["index.html"],
+  );
+  assert.deepEqual(result.skipped, [{ path: "app/big.txt", reason: "too large" }]);
+});
+
+test("strips the wrapper folder and reports every ignored entry", async () => {
+  const result = await extractArchive(
+    await zipArchive([
+      ["my-app/index.html", "<h1>Hi</h1>"],
+      ["my-app/src/build/helpers.ts", "export {};"],
+      ["my-app/build/bundle.js", "built"],
+      ["my-app/node_modules/react/index.js", "module.exports = {};"],
+      ["my-app/.DS_Store", "x"],
+    ]),
+  );
+  assert.equal(result.rootFolder, "my-app");
+  assert.deepEqual(
+    result.files.map((file) => file.path),
+    ["index.html", "src/build/helpers.ts"],
+  );
+  assert.deepEqual(result.skipped, [
+    { path: "my-app/node_modules/react/index.js", reason: "ignored" },
+    { path: "my-app/.DS_Store", reason: "ignored" },
+    { path: "my-app/build/bundle.js", reason: "build output" },
+  ]);
+});
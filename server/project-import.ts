@@ -0,0 +1,337 @@
+import { createGunzip } from "zlib";
+import { Readable } from "stream";
+import yauzl from "yauzl";
+import tar from "tar-stream";
+import { normalizeGeneratedPath } from "./generation-stream";
+import { BINARY_FILE_TYPE } from "./project-files";
+
+// Turns an uploaded ZIP, tarball or folder into project files. Every entry
+// path is checked before anything is stored: an archive containing an absolute
+// path or a ".." segment (zip-slip) is rejected outright rather than cleaned up.
+
+export const MAX_ARCHIVE_BYTES = 20 * 1024 * 1024;
+const MAX_EXTRACTED_BYTES = 50 * 1024 * 1024;
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_FILES = 1000;
+
+// Dependency folders, VCS data and OS metadata are never worth importing, wherever they are
+const IGNORED_SEGMENTS = new Set(["node_modules", ".git", "__MACOSX", "__pycache__"]);
+const IGNORED_NAMES = new Set([".DS_Store", "Thumbs.db"]);
+// Build output, only at the project root; src/build/ and the like are source
+const IGNORED_ROOT_FOLDERS = new Set(["dist", "build", ".next"]);
+
+export class ImportError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+export interface ImportedFile {
+  path: string;
+  // Base64 for binary files
+  content: string;
+  language?: typeof BINARY_FILE_TYPE;
+}
+
+export interface ImportResult {
+  files: ImportedFile[];
+  // Entries left out, with the reason, so the client can tell the user
+  skipped: { path: string; reason: string }[];
+  // Single folder every file was nested under, e.g. "my-app" from my-app.zip
+  rootFolder: string | null;
+}
+
+interface RawEntry {
+  path: string;
+  content: Buffer;
+  // Known up front for folder uploads; archive entries are sniffed
+  binary?: boolean;
+}
+
+// Tracks the uncompressed size across entries so zip bombs stop early
+class SizeBudget {
+  private total = 0;
+
+  add(bytes: number) {
+    this.total += bytes;
+    if (this.total > MAX_EXTRACTED_BYTES) {
+      throw new ImportError(`Archive expands to more than ${MAX_EXTRACTED_BYTES / 1024 / 1024} MB`, 413);
+    }
+  }
+}
+
+async function readLimited(stream: AsyncIterable<unknown> & { destroy(): void }, budget: SizeBudget): Promise<Buffer | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const data of stream) {
+    const chunk = data as Buffer;
+    size += chunk.length;
+    budget.add(chunk.length);
+    // Keeps reading to the end so the archive stream moves on to the next entry;
+    // the size budget still caps how much that can be
+    if (size <= MAX_FILE_BYTES) chunks.push(chunk);
+  }
+  return size > MAX_FILE_BYTES ? null : Buffer.concat(chunks);
+}
+
+function checkEntryCount(count: number) {
+  if (count > MAX_FILES) {
+    throw new ImportError(`Archive has more than ${MAX_FILES} files`, 413);
+  }
+}
+
+async function extractZip(buffer: Buffer, skipped: ImportResult["skipped"]): Promise<RawEntry[]> {
+  let zipfile: yauzl.ZipFile;
+  try {
+    zipfile = await yauzl.fromBufferPromise(buffer, { lazyEntries: true, strictFileNames: true });
+  } catch (error) {
+    throw new ImportError(`Invalid ZIP archive: ${(error as Error).message}`);
+  }
+
+  const entries: RawEntry[] = [];
+  const budget = new SizeBudget();
+
+  return new Promise((resolve, reject) => {
+    zipfile.on("error", (error) => reject(new ImportError(`Invalid ZIP archive: ${error.message}`)));
+    zipfile.on("end", () => resolve(entries));
+    zipfile.on("entry", (entry: yauzl.Entry) => {
+      if (entry.fileName.endsWith("/")) {
+        zipfile.readEntry();
+        return;
+      }
+
+      let path: string;
+      try {
+        path = checkEntryPath(entry.fileName);
+      } catch (error) {
+        zipfile.close();
+        return reject(error);
+      }
+      const mode = (entry.externalFileAttributes >>> 16) & 0o170000;
+      if (mode === 0o120000) {
+        skipped.push({ path, reason: "symbolic link" });
+        zipfile.readEntry();
+        return;
+      }
+      if (entry.uncompressedSize > MAX_FILE_BYTES) {
+        skipped.push({ path, reason: "too large" });
+        zipfile.readEntry();
+        return;
+      }
+
+      zipfile.openReadStream(entry, (error, stream) => {
+        if (error) return reject(new ImportError(`Could not read ${path}: ${error.message}`));
+        readLimited(stream, budget)
+          .then((content) => {
+            if (content) {
+              entries.push({ path, content });
+              checkEntryCount(entries.length);
+            } else {
+              skipped.push({ path, reason: "too large" });
+            }
+            zipfile.readEntry();
+          })
+          .catch(reject);
+      });
+    });
+    zipfile.readEntry();
+  });
+}
+
+async function extractTar(buffer: Buffer, gzipped: boolean, skipped: ImportResult["skipped"]): Promise<RawEntry[]> {
+  const entries: RawEntry[] = [];
+  const budget = new SizeBudget();
+  const extract = tar.extract();
+  const source = Readable.from([buffer]);
+
+  if (gzipped) {
+    const gunzip = createGunzip();
+    gunzip.on("error", (error) => extract.destroy(new ImportError(`Invalid tar.gz archive: ${error.message}`)));
+    source.pipe(gunzip).pipe(extract);
+  } else {
+    source.pipe(extract);
+  }
+
+  try {
+    for await (const entry of extract) {
+      const { name, type } = entry.header;
+      if (type === "directory") {
+        entry.resume();
+        continue;
+      }
+
+      const path = checkEntryPath(name);
+      if (type !== "file") {
+        skipped.push({ path, reason: type === "symlink" || type === "link" ? "link" : `unsupported entry (${type})` });
+        entry.resume();
+        continue;
+      }
+      if ((entry.header.size ?? 0) > MAX_FILE_BYTES) {
+        skipped.push({ path, reason: "too large" });
+        entry.resume();
+        continue;
+      }
+
+      const content = await readLimited(entry, budget);
+      if (content) {
+        entries.push({ path, content });
+        checkEntryCount(entries.length);
+      } else {
+        skipped.push({ path, reason: "too large" });
+      }
+    }
+  } catch (error) {
+    if (error instanceof ImportError) throw error;
+    throw new ImportError(`Invalid tar archive: ${(error as Error).message}`);
+  }
+
+  return entries;
+}
+
+// Rejects the archive when any entry would land outside the project
+function checkEntryPath(name: string): string {
+  const path = name.startsWith("/") || /^[a-zA-Z]:/.test(name) || name.includes("\\") ? null : normalizeGeneratedPath(name);
+  if (!path) {
+    throw new ImportError(`Archive entry escapes the project folder: ${name}`);
+  }
+  return path;
+}
+
+function isIgnored(path: string): boolean {
+  const segments = path.split("/");
+  return segments.some((segment) => IGNORED_SEGMENTS.has(segment)) || IGNORED_NAMES.has(segments[segments.length - 1]);
+}
+
+// Archives made by zipping a folder nest everything one level down
+function wrapperFolder(paths: string[]): string | null {
+  if (paths.length === 0) return null;
+  const [first] = paths[0].split("/");
+  return paths.every((path) => path.startsWith(`${first}/`)) ? first : null;
+}
+
+// project_files stores content as text, so binary files are kept as base64
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+// Ignored entries are listed in skipped like every other entry left out
+export function collectImportFiles(entries: RawEntry[], skipped: ImportResult["skipped"] = []): ImportResult {
+  const kept = entries.filter((entry) => {
+    if (!isIgnored(entry.path)) return true;
+    skipped.push({ path: entry.path, reason: "ignored" });
+    return false;
+  });
+
+  const rootFolder = wrapperFolder(kept.map((entry) => entry.path));
+  const files: ImportedFile[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of kept) {
+    const path = rootFolder ? entry.path.slice(rootFolder.length + 1) : entry.path;
+    if (IGNORED_ROOT_FOLDERS.has(path.split("/")[0]) && path.includes("/")) {
+      skipped.push({ path: entry.path, reason: "build output" });
+      continue;
+    }
+    // e.g. "a.txt" and "./a.txt", or the same name added to an archive twice
+    if (seen.has(path)) {
+      throw new ImportError(`Archive contains ${entry.path} more than once`);
+    }
+    seen.add(path);
+    if (entry.binary ?? isBinary(entry.content)) {
+      files.push({ path, content: entry.content.toString("base64"), language: BINARY_FILE_TYPE });
+    } else {
+      files.push({ path, content: entry.content.toString("utf8") });
+    }
+  }
+
+  if (files.length === 0) {
+    throw new ImportError("No importable files found");
+  }
+
+  return { files, skipped, rootFolder };
+}
+
+export async function extractArchive(buffer: Buffer): Promise<ImportResult> {
+  const skipped: ImportResult["skipped"] = [];
+  let entries: RawEntry[];
+
+  if (buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    entries = await extractZip(buffer, skipped);
+  } else if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+    entries = await extractTar(buffer, true, skipped);
+  } else if (buffer.subarray(257, 262).toString() === "ustar") {
+    entries = await extractTar(buffer, false, skipped);
+  } else {
+    throw new ImportError("Unsupported archive format; upload a .zip, .tar or .tar.gz file");
+  }
+
+  return collectImportFiles(entries, skipped);
+}
+
+// Folder uploads arrive as JSON, already read by the browser: text files as
+// strings, binary files as { content, type: "binary" } with base64 content
+export function importFolder(files: Record<string, string | { content: string; type: typeof BINARY_FILE_TYPE }>): ImportResult {
+  const budget = new SizeBudget();
+  const skipped: ImportResult["skipped"] = [];
+  const entries: RawEntry[] = [];
+
+  checkEntryCount(Object.keys(files).length);
+  for (const [name, file] of Object.entries(files)) {
+    const path = checkEntryPath(name);
+    const binary = typeof file !== "string";
+    const content = binary ? Buffer.from(file.content, "base64") : Buffer.from(file, "utf8");
+    budget.add(content.length);
+    if (content.length > MAX_FILE_BYTES) {
+      skipped.push({ path, reason: "too large" });
+      continue;
+    }
+    entries.push({ path, content, binary });
+  }
+
+  return collectImportFiles(entries, skipped);
+}
+
+const FRAMEWORK_DEPENDENCIES: [string, string][] = [
+  ["next", "next"],
+  ["react", "react"],
+  ["vue", "vue"],
+  ["svelte", "svelte"],
+  ["@angular/core", "angular"],
+  ["express", "express"],
+  ["fastify", "fastify"],
+];
+
+// Reads package.json dependencies first, then falls back to the mix of file extensions
+export function detectStack(files: ImportedFile[]): { language: string; framework: string | null; name: string | null } {
+  const paths = files.map((file) => file.path);
+  const count = (pattern: RegExp) => paths.filter((path) => pattern.test(path)).length;
+
+  let framework: string | null = null;
+  let name: string | null = null;
+  const packageJson = files.find((file) => file.path === "package.json");
+  if (packageJson) {
+    try {
+      const pkg = JSON.parse(packageJson.content);
+      const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+      framework = FRAMEWORK_DEPENDENCIES.find(([dependency]) => dependency in dependencies)?.[1] ?? null;
+      name = typeof pkg.name === "string" ? pkg.name : null;
+    } catch {
+      // A malformed package.json is imported as-is
+    }
+  }
+
+  const typescript = count(/\.tsx?$/);
+  const javascript = count(/\.(m?js|jsx)$/);
+  const python = count(/\.py$/);
+
+  let language = "html";
+  if (python > typescript + javascript) language = "python";
+  else if (typescript > 0 && typescript >= javascript) language = "typescript";
+  else if (javascript > 0) language = "javascript";
+  else if (!paths.some((path) => path.endsWith(".html"))) language = "text";
+
+  if (!framework && count(/\.(jsx|tsx)$/) > 0) framework = "react";
+
+  return { language, framework, name };
+}
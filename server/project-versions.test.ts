@@ -0,0 +1,159 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// Version history through the project routes: numbering, compare and restore
+
+let server: Server;
+let baseUrl: string;
+let owner: string;
+let stranger: string;
+
+before(async () => {
+  // Read when the auth and storage modules load
+  process.env.STORAGE = "memory";
+  process.env.AUTH_PROVIDERS = "dev";
+  process.env.SESSION_SECRET = "test-session-secret";
+
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  owner = await signIn("ada");
+  stranger = await signIn("grace");
+});
+
+after(() => server.close());
+
+async function signIn(name: string) {
+  const login = await fetch(`${baseUrl}/api/auth/dev/login?as=${name}`, { redirect: "manual" });
+  return login.headers.get("set-cookie")!.split(";")[0];
+}
+
+const request = (method: string, path: string, cookie: string, body?: unknown) =>
+  fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "content-type": "application/json", cookie },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const files = (html: string) => ({ "index.html": { content: html }, "style.css": { content: "h1 { color: teal; }" } });
+// Responses add each file's type; only the contents matter here
+const contents = (fileSet: Record<string, { content: string }>) =>
+  Object.fromEntries(Object.entries(fileSet).map(([path, file]) => [path, { content: file.content }]));
+
+async function createProject(cookie = owner) {
+  const response = await request("POST", "/api/projects", cookie, {
+    name: "Greeting",
+    prompt: "a greeting page",
+    language: "html",
+    files: files("<h1>Hello</h1>"),
+  });
+  assert.equal(response.status, 200);
+  return (await response.json()).id as string;
+}
+
+async function listVersions(projectId: string, cookie = owner) {
+  const response = await request("GET", `/api/projects/${projectId}/versions`, cookie);
+  assert.equal(response.status, 200);
+  return (await response.json()) as { id: string; version: number; source: string; label: string | null }[];
+}
+
+test("numbers versions per project, newest first", async () => {
+  const projectId = await createProject();
+  await request("PUT", `/api/projects/${projectId}`, owner, { files: files("<h1>Hello again</h1>") });
+  // Autosaves are not snapshotted
+  await request("PUT", `/api/projects/${projectId}`, owner, { files: files("<h1>Draft</h1>"), autosave: true });
+  const created = await request("POST", `/api/projects/${projectId}/versions`, owner, { label: "Checkpoint" });
+  assert.equal(created.status, 201);
+  assert.equal((await created.json()).version, 3);
+
+  assert.deepEqual(
+    (await listVersions(projectId)).map(({ version, label }) => [version, label]),
+    [
+      [3, "Checkpoint"],
+      [2, "Manual save"],
+      [1, "Created project"],
+    ],
+  );
+
+  // Another project starts again from 1
+  const [first] = await listVersions(await createProject());
+  assert.equal(first.version, 1);
+});
+
+test("compares two versions, or a version against the current files", async () => {
+  const projectId = await createProject();
+  await request("PUT", `/api/projects/${projectId}`, owner, { files: { "index.html": { content: "<h1>Bye</h1>" } } });
+  const [second, first] = await listVersions(projectId);
+
+  const between = await (await request("GET", `/api/projects/${projectId}/versions/compare?from=${first.id}&to=${second.id}`, owner)).json();
+  assert.equal(between.to.version, 2);
+  assert.deepEqual(
+    between.changes.map(({ path, status }: { path: string; status: string }) => [path, status]),
+    [
+      ["index.html", "modified"],
+      ["style.css", "removed"],
+    ],
+  );
+
+  const current = await (await request("GET", `/api/projects/${projectId}/versions/compare?from=${second.id}`, owner)).json();
+  assert.equal(current.to, null);
+  assert.deepEqual(current.changes, []);
+
+  const missingFrom = await request("GET", `/api/projects/${projectId}/versions/compare`, owner);
+  assert.equal(missingFrom.status, 400);
+});
+
+test("restoring brings back a version's files and records the restore", async () => {
+  const projectId = await createProject();
+  await request("PUT", `/api/projects/${projectId}`, owner, { files: { "index.html": { content: "<h1>Rewritten</h1>" } } });
+  const [, first] = await listVersions(projectId);
+
+  const restored = await request("POST", `/api/projects/${projectId}/versions/${first.id}/restore`, owner);
+  assert.equal(restored.status, 200);
+  assert.deepEqual(contents((await restored.json()).files), files("<h1>Hello</h1>"));
+
+  const [latest] = await listVersions(projectId);
+  assert.deepEqual([latest.version, latest.source, latest.label], [3, "restore", "Restored version 1"]);
+  const compare = await (await request("GET", `/api/projects/${projectId}/versions/compare?from=${first.id}`, owner)).json();
+  assert.deepEqual(compare.changes, []);
+});
+
+test("restoring keeps unsaved work as a version of its own first", async () => {
+  const projectId = await createProject();
+  await request("PUT", `/api/projects/${projectId}`, owner, { files: { "index.html": { content: "<h1>Unsaved</h1>" } }, autosave: true });
+  const [first] = await listVersions(projectId);
+
+  await request("POST", `/api/projects/${projectId}/versions/${first.id}/restore`, owner);
+  const [restore, before] = await listVersions(projectId);
+  assert.equal(restore.source, "restore");
+  assert.equal(before.label, "Before restoring version 1");
+  const saved = await (await request("GET", `/api/projects/${projectId}/versions/${before.id}`, owner)).json();
+  assert.equal(saved.files["index.html"].content, "<h1>Unsaved</h1>");
+});
+
+test("versions are only reachable through the project that owns them", async () => {
+  const projectId = await createProject();
+  const [version] = await listVersions(projectId);
+
+  // Someone else's project is reported as missing
+  assert.equal((await request("GET", `/api/projects/${projectId}/versions`, stranger)).status, 404);
+  assert.equal((await request("GET", `/api/projects/${projectId}/versions/${version.id}`, stranger)).status, 404);
+  assert.equal((await request("GET", `/api/projects/${projectId}/versions/compare?from=${version.id}`, stranger)).status, 404);
+  assert.equal((await request("POST", `/api/projects/${projectId}/versions/${version.id}/restore`, stranger)).status, 404);
+
+  // Nor can another user pull the version into a project of their own
+  const strangerProjectId = await createProject(stranger);
+  assert.equal((await request("POST", `/api/projects/${strangerProjectId}/versions/${version.id}/restore`, stranger)).status, 404);
+  assert.equal((await request("GET", `/api/projects/${strangerProjectId}/versions/compare?from=${version.id}`, stranger)).status, 404);
+
+  const strangerFiles = await (await request("GET", `/api/projects/${strangerProjectId}`, stranger)).json();
+  assert.deepEqual(contents(strangerFiles.files), files("<h1>Hello</h1>"));
+  assert.equal((await listVersions(projectId)).length, 1);
+});
@@ -1,3 +1,6 @@
+// Files whose contents are written inline in the response template below
+const CONFIG_FILES = ['package.json', 'tsconfig.json', 'vite.config.ts', 'tailwind.config.js', 'index.html'];
+
 // Enhanced Replit Agent-style code generation engine
 export function generateReplitResponse(prompt: string) {
   const promptLower = prompt.toLowerCase();
@@ -23,6 +26,8 @@ export function generateReplitResponse(prompt: string) {
     'src/main.tsx',
     'src/App.tsx',
     'src/components/Layout.tsx',
+    'src/components/Header.tsx',
+    'src/components/Footer.tsx',
     'src/hooks/useApi.ts',
     'src/utils/helpers.ts',
     'src/styles/globals.css',
@@ -120,6 +125,16 @@ export function generateReplitResponse(prompt: string) {
     features.push('Responsive design', 'Interactive UI');
   }
 
+  // Every listed file gets a path-tagged block so the manifest places it exactly
+  const sourceBlocks = files
+    .filter(file => !CONFIG_FILES.includes(file))
+    .map(file => {
+      const { content, language } = generateFileContent(file, projectDescription);
+      const fence = content.includes('```') ? '````' : '```';
+      return `${fence}${language} path=${file}\n${content}\n${fence}`;
+    })
+    .join('\n\n');
+
   const response = `🚀 I'll create a ${projectDescription} from scratch!
 
 ## Building Your ${projectDescription.charAt(0).toUpperCase() + projectDescription.slice(1)}
@@ -144,7 +159,7 @@ ${features.map(feature => `✨ ${feature}`).join('\n')}
 
 ## Generated Code
 
-\`\`\`json
+\`\`\`json path=package.json
 {
   "name": "${prompt.toLowerCase().replace(/[^a-z0-9]/g, '-')}-app",
   "version": "1.0.0",
@@ -174,7 +189,7 @@ ${features.map(feature => `✨ ${feature}`).join('\n')}
 }
 \`\`\`
 
-\`\`\`json
+\`\`\`json path=tsconfig.json
 {
   "compilerOptions": {
     "target": "ES2020",
@@ -202,7 +217,7 @@ ${features.map(feature => `✨ ${feature}`).join('\n')}
 }
 \`\`\`
 
-\`\`\`typescript
+\`\`\`typescript path=vite.config.ts
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
@@ -230,7 +245,7 @@ export default defineConfig({
 })
 \`\`\`
 
-\`\`\`javascript
+\`\`\`javascript path=tailwind.config.js
 /** @type {import('tailwindcss').Config} */
 export default {
   content: [
@@ -253,7 +268,7 @@ export default {
 }
 \`\`\`
 
-\`\`\`html
+\`\`\`html path=index.html
 <!DOCTYPE html>
 <html lang="en">
   <head>
@@ -268,6 +283,8 @@ export default {
 </html>
 \`\`\`
 
+${sourceBlocks}
+
 ## Quick Start
 \`\`\`bash
 npm install
@@ -294,7 +311,18 @@ export function generateFileContent(fileName: string, projectType: string): { co
     language = 'tsx';
     const componentName = fileName.split('/').pop()?.replace('.tsx', '') || 'Component';
     
-    if (fileName.includes('App.tsx')) {
+    if (fileName.endsWith('main.tsx')) {
+      content = `import React from 'react'
+import ReactDOM from 'react-dom/client'
+import App from './App'
+import './styles/globals.css'
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>,
+)`;
+    } else if (fileName.includes('App.tsx')) {
       const projectLower = projectType.toLowerCase();
       
       if (projectLower.includes('chat')) {
@@ -378,7 +406,6 @@ function App() {
 
 export default App`;
       }
-    }
     } else if (fileName.includes('Layout.tsx')) {
       content = `import React from 'react'
 import Header from './Header'
@@ -648,18 +675,7 @@ export default function ${componentName}({}: ${componentName}Props) {
     }
   } else if (fileName.endsWith('.ts')) {
     language = 'typescript';
-    if (fileName.includes('main.tsx')) {
-      content = `import React from 'react'
-import ReactDOM from 'react-dom/client'
-import App from './App'
-import './styles/globals.css'
-
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)`;
-    } else if (fileName.includes('types')) {
+    if (fileName.includes('types')) {
       content = `export interface User {
   id: string
   name: string
@@ -730,6 +746,11 @@ npm run dev
 - \`npm run dev\` - Start development server
 - \`npm run build\` - Build for production
 - \`npm run test\` - Run tests`;
+  } else if (fileName.endsWith('.gitignore')) {
+    content = `node_modules
+dist
+.env
+*.log`;
   } else {
     content = `# ${fileName}
 
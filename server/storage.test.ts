@@ -0,0 +1,125 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// MemStorage, and FileStorage's background writes, exit flush and reload
+
+let FileStorage: typeof import("./storage").FileStorage;
+let MemStorage: typeof import("./storage").MemStorage;
+let dir: string;
+
+before(async () => {
+  // Read when the storage module loads
+  process.env.STORAGE = "memory";
+  ({ FileStorage, MemStorage } = await import("./storage"));
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-test-"));
+});
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function seed(storage: InstanceType<typeof MemStorage>, projectId = "p1") {
+  await storage.upsertUser({ id: "ada", email: "ada@example.com" });
+  await storage.createProject({ id: projectId, userId: "ada", name: "Demo", prompt: "a demo", language: "html" });
+  await storage.replaceProjectFiles(projectId, [
+    { id: `${projectId}-index`, projectId, fileName: "index.html", filePath: "index.html", content: "<h1>Hi</h1>", language: "html" },
+  ]);
+}
+
+test("MemStorage keeps project files and drops them with the project", async () => {
+  const storage = new MemStorage();
+  await seed(storage);
+  assert.deepEqual(
+    (await storage.getProjectFiles("p1")).map((file) => file.filePath),
+    ["index.html"],
+  );
+  await assert.rejects(
+    storage.createProjectFile({ id: "dup", projectId: "p1", fileName: "index.html", filePath: "index.html", content: "", language: "html" }),
+    /File already exists/,
+  );
+
+  await storage.deleteProject("p1");
+  assert.equal(await storage.getProject("p1"), undefined);
+  assert.deepEqual(await storage.getProjectFiles("p1"), []);
+});
+
+test("FileStorage writes a burst of changes once, after the change settles", async (t) => {
+  const filePath = path.join(dir, "debounced", "storage.json");
+  const writeFile = t.mock.method(fs.promises, "writeFile");
+  const storage = new FileStorage(filePath);
+
+  await seed(storage);
+  // Nothing is written on the request path
+  assert.equal(fs.existsSync(filePath), false);
+  assert.equal(writeFile.mock.callCount(), 0);
+
+  for (let waited = 0; !fs.existsSync(filePath) && waited < 2000; waited += 50) await sleep(50);
+  assert.equal(writeFile.mock.callCount(), 1);
+  const snapshot = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  assert.deepEqual(
+    snapshot.projects.map((project: { id: string }) => project.id),
+    ["p1"],
+  );
+  assert.equal(snapshot.projectFiles.length, 1);
+});
+
+test("FileStorage does not write when only a token's last use changes", async (t) => {
+  const filePath = path.join(dir, "touch", "storage.json");
+  const storage = new FileStorage(filePath);
+  await storage.upsertUser({ id: "ada" });
+  await storage.createApiToken({ id: "t1", userId: "ada", name: "CI", tokenHash: "hash", tokenPrefix: "prefix", scopes: ["read"] });
+  storage.flush();
+  const written = fs.statSync(filePath).mtimeMs;
+
+  const writeFile = t.mock.method(fs.promises, "writeFile");
+  await storage.touchApiToken("t1", new Date());
+  await sleep(400);
+  assert.equal(writeFile.mock.callCount(), 0);
+  assert.equal(fs.statSync(filePath).mtimeMs, written);
+});
+
+test("FileStorage flushes pending changes when the process exits", () => {
+  const filePath = path.join(dir, "exit", "storage.json");
+  const script = `
+    const { FileStorage } = await import(${JSON.stringify(new URL("./storage.ts", import.meta.url).href)});
+    const storage = new FileStorage(${JSON.stringify(filePath)});
+    await storage.upsertUser({ id: "ada" });
+    process.exit(0);
+  `;
+  const child = spawnSync(process.execPath, ["--import", "tsx", "--input-type=module", "-e", script], {
+    env: { ...process.env, STORAGE: "memory" },
+    encoding: "utf8",
+    timeout: 30_000,
+  });
+  assert.equal(child.status, 0, child.stderr);
+
+  const snapshot = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  assert.deepEqual(
+    snapshot.users.map((user: { id: string }) => user.id),
+    ["ada"],
+  );
+});
+
+test("FileStorage reloads what it wrote, with dates revived", async () => {
+  const filePath = path.join(dir, "reload", "storage.json");
+  const first = new FileStorage(filePath);
+  await seed(first);
+  await first.createProjectVersion({ id: "v1", projectId: "p1", source: "manual", files: { "index.html": { content: "<h1>Hi</h1>" } } });
+  first.flush();
+
+  const second = new FileStorage(filePath);
+  const project = await second.getProject("p1");
+  assert.equal(project?.name, "Demo");
+  assert.ok(project?.createdAt instanceof Date);
+  assert.equal((await second.getProjectFile("p1", "index.html"))?.content, "<h1>Hi</h1>");
+  assert.equal((await second.getUserByEmail("ada@example.com"))?.id, "ada");
+
+  // Numbering carries on from the versions on disk
+  const next = await second.createProjectVersion({ id: "v2", projectId: "p1", source: "manual", files: {} });
+  assert.equal(next.version, 2);
+  second.flush();
+});
@@ -1,26 +1,55 @@
 import {
   users,
+  userCredentials,
+  passwordResetTokens,
+  apiTokens,
   projects,
   projectFiles,
+  projectVersions,
   type User,
   type UpsertUser,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type ApiToken,
+  type InsertApiToken,
   type Project,
   type InsertProject,
   type ProjectFile,
   type InsertProjectFile,
+  type ProjectVersion,
+  type InsertProjectVersion,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { db, type Database } from "./db";
+import { eq, desc, and, sql, gt } from "drizzle-orm";
+import fs from "fs";
+import path from "path";
 
 // Interface for storage operations
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
-  
+  getUserByEmail(email: string): Promise<User | undefined>;
+
+  // Local password sign-in
+  getPasswordHash(userId: string): Promise<string | undefined>;
+  setPasswordHash(userId: string, passwordHash: string): Promise<void>;
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<void>;
+  // Deletes the token along with the user's other reset tokens; returns the
+  // user id, or undefined if the token is unknown or expired
+  consumePasswordResetToken(tokenHash: string): Promise<string | undefined>;
+
+  // Personal API tokens
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getUserApiTokens(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: string, usedAt: Date): Promise<void>;
+  deleteApiToken(id: string): Promise<void>;
+
   // Project operations
   createProject(project: InsertProject): Promise<Project>;
   getProject(id: string): Promise<Project | undefined>;
+  getProjectByShareSlug(shareSlug: string): Promise<Project | undefined>;
   getUserProjects(userId: string): Promise<Project[]>;
   updateProject(id: string, updates: Partial<InsertProject>): Promise<Project>;
   deleteProject(id: string): Promise<void>;
@@ -28,19 +57,28 @@ export interface IStorage {
   // Project file operations
   createProjectFile(file: InsertProjectFile): Promise<ProjectFile>;
   getProjectFiles(projectId: string): Promise<ProjectFile[]>;
+  getProjectFile(projectId: string, filePath: string): Promise<ProjectFile | undefined>;
+  replaceProjectFiles(projectId: string, files: InsertProjectFile[]): Promise<ProjectFile[]>;
   updateProjectFile(id: string, updates: Partial<InsertProjectFile>): Promise<ProjectFile>;
   deleteProjectFile(id: string): Promise<void>;
+
+  // Project version operations; version numbers are assigned per project, starting at 1
+  createProjectVersion(version: Omit<InsertProjectVersion, "version">): Promise<ProjectVersion>;
+  getProjectVersions(projectId: string): Promise<ProjectVersion[]>;
+  getProjectVersion(id: string): Promise<ProjectVersion | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
   // User operations (mandatory for Replit Auth)
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(userData)
       .onConflictDoUpdate({
@@ -54,9 +92,76 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user;
+  }
+
+  // Local password sign-in
+  async getPasswordHash(userId: string): Promise<string | undefined> {
+    const [credentials] = await this.db.select().from(userCredentials).where(eq(userCredentials.userId, userId));
+    return credentials?.passwordHash;
+  }
+
+  async setPasswordHash(userId: string, passwordHash: string): Promise<void> {
+    await this.db
+      .insert(userCredentials)
+      .values({ userId, passwordHash })
+      .onConflictDoUpdate({
+        target: userCredentials.userId,
+        set: { passwordHash, updatedAt: new Date() },
+      });
+  }
+
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<void> {
+    await this.db.insert(passwordResetTokens).values(token);
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<string | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [token] = await tx
+        .delete(passwordResetTokens)
+        .where(and(eq(passwordResetTokens.tokenHash, tokenHash), gt(passwordResetTokens.expiresAt, new Date())))
+        .returning();
+      if (!token) return undefined;
+      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, token.userId));
+      return token.userId;
+    });
+  }
+
+  // Personal API tokens
+  async createApiToken(tokenData: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.db.insert(apiTokens).values(tokenData).returning();
+    return token;
+  }
+
+  async getUserApiTokens(userId: string): Promise<ApiToken[]> {
+    return await this.db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async touchApiToken(id: string, usedAt: Date): Promise<void> {
+    await this.db.update(apiTokens).set({ lastUsedAt: usedAt }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: string): Promise<void> {
+    await this.db.delete(apiTokens).where(eq(apiTokens.id, id));
+  }
+
   // Project operations
   async createProject(projectData: InsertProject): Promise<Project> {
-    const [project] = await db
+    const [project] = await this.db
       .insert(projects)
       .values(projectData)
       .returning();
@@ -64,12 +169,17 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getProject(id: string): Promise<Project | undefined> {
-    const [project] = await db.select().from(projects).where(eq(projects.id, id));
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async getProjectByShareSlug(shareSlug: string): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.shareSlug, shareSlug));
     return project;
   }
 
   async getUserProjects(userId: string): Promise<Project[]> {
-    return await db
+    return await this.db
       .select()
       .from(projects)
       .where(eq(projects.userId, userId))
@@ -77,7 +187,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateProject(id: string, updates: Partial<InsertProject>): Promise<Project> {
-    const [project] = await db
+    const [project] = await this.db
       .update(projects)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(projects.id, id))
@@ -86,12 +196,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteProject(id: string): Promise<void> {
-    await db.delete(projects).where(eq(projects.id, id));
+    await this.db.delete(projects).where(eq(projects.id, id));
   }
 
   // Project file operations
   async createProjectFile(fileData: InsertProjectFile): Promise<ProjectFile> {
-    const [file] = await db
+    const [file] = await this.db
       .insert(projectFiles)
       .values(fileData)
       .returning();
@@ -99,14 +209,31 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getProjectFiles(projectId: string): Promise<ProjectFile[]> {
-    return await db
+    return await this.db
       .select()
       .from(projectFiles)
-      .where(eq(projectFiles.projectId, projectId));
+      .where(eq(projectFiles.projectId, projectId))
+      .orderBy(projectFiles.filePath);
+  }
+
+  async getProjectFile(projectId: string, filePath: string): Promise<ProjectFile | undefined> {
+    const [file] = await this.db
+      .select()
+      .from(projectFiles)
+      .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.filePath, filePath)));
+    return file;
+  }
+
+  async replaceProjectFiles(projectId: string, files: InsertProjectFile[]): Promise<ProjectFile[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(projectFiles).where(eq(projectFiles.projectId, projectId));
+      if (files.length === 0) return [];
+      return await tx.insert(projectFiles).values(files).returning();
+    });
   }
 
   async updateProjectFile(id: string, updates: Partial<InsertProjectFile>): Promise<ProjectFile> {
-    const [file] = await db
+    const [file] = await this.db
       .update(projectFiles)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(projectFiles.id, id))
@@ -115,8 +242,480 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteProjectFile(id: string): Promise<void> {
-    await db.delete(projectFiles).where(eq(projectFiles.id, id));
+    await this.db.delete(projectFiles).where(eq(projectFiles.id, id));
+  }
+
+  // Project version operations
+  async createProjectVersion(versionData: Omit<InsertProjectVersion, "version">): Promise<ProjectVersion> {
+    return await this.db.transaction(async (tx) => {
+      // Locking the project row makes concurrent snapshots of one project take
+      // turns, so two of them never pick the same next number
+      await tx.select({ id: projects.id }).from(projects).where(eq(projects.id, versionData.projectId)).for("update");
+      const [version] = await tx
+        .insert(projectVersions)
+        .values({
+          ...versionData,
+          version: sql`(select coalesce(max(${projectVersions.version}), 0) + 1 from ${projectVersions} where ${projectVersions.projectId} = ${versionData.projectId})`,
+        })
+        .returning();
+      return version;
+    });
+  }
+
+  async getProjectVersions(projectId: string): Promise<ProjectVersion[]> {
+    return await this.db
+      .select()
+      .from(projectVersions)
+      .where(eq(projectVersions.projectId, projectId))
+      .orderBy(desc(projectVersions.version));
+  }
+
+  async getProjectVersion(id: string): Promise<ProjectVersion | undefined> {
+    const [version] = await this.db.select().from(projectVersions).where(eq(projectVersions.id, id));
+    return version;
+  }
+}
+
+// In-memory storage for running without Postgres; mirrors the table defaults,
+// cascades and unique constraints of the database schema
+export class MemStorage implements IStorage {
+  protected users = new Map<string, User>();
+  // Password hashes by user id
+  protected credentials = new Map<string, string>();
+  protected passwordResetTokens = new Map<string, PasswordResetToken>();
+  protected apiTokens = new Map<string, ApiToken>();
+  protected projects = new Map<string, Project>();
+  protected projectFiles = new Map<string, ProjectFile>();
+  protected projectVersions = new Map<string, ProjectVersion>();
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const existing = this.users.get(userData.id);
+    const now = new Date();
+    const user: User = {
+      email: null,
+      firstName: null,
+      lastName: null,
+      profileImageUrl: null,
+      createdAt: now,
+      ...existing,
+      ...withoutUndefined(userData),
+      updatedAt: now,
+    };
+    if (user.email && Array.from(this.users.values()).some((other) => other.id !== user.id && other.email === user.email)) {
+      throw new Error(`Email already in use: ${user.email}`);
+    }
+    this.users.set(user.id, user);
+    this.changed();
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const wanted = email.toLowerCase();
+    return Array.from(this.users.values()).find((user) => user.email?.toLowerCase() === wanted);
+  }
+
+  // Local password sign-in
+  async getPasswordHash(userId: string): Promise<string | undefined> {
+    return this.credentials.get(userId);
+  }
+
+  async setPasswordHash(userId: string, passwordHash: string): Promise<void> {
+    if (!this.users.has(userId)) {
+      throw new Error(`User not found: ${userId}`);
+    }
+    this.credentials.set(userId, passwordHash);
+    this.changed();
+  }
+
+  async createPasswordResetToken(tokenData: InsertPasswordResetToken): Promise<void> {
+    if (!this.users.has(tokenData.userId)) {
+      throw new Error(`User not found: ${tokenData.userId}`);
+    }
+    this.passwordResetTokens.set(tokenData.tokenHash, { createdAt: new Date(), ...withoutUndefined(tokenData) });
+    this.changed();
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<string | undefined> {
+    const token = this.passwordResetTokens.get(tokenHash);
+    if (!token || token.expiresAt.getTime() <= Date.now()) return undefined;
+    for (const other of Array.from(this.passwordResetTokens.values())) {
+      if (other.userId === token.userId) this.passwordResetTokens.delete(other.tokenHash);
+    }
+    this.changed();
+    return token.userId;
+  }
+
+  // Personal API tokens
+  async createApiToken(tokenData: InsertApiToken): Promise<ApiToken> {
+    if (!this.users.has(tokenData.userId)) {
+      throw new Error(`User not found: ${tokenData.userId}`);
+    }
+    if (Array.from(this.apiTokens.values()).some((other) => other.tokenHash === tokenData.tokenHash)) {
+      throw new Error("API token already exists");
+    }
+    const token: ApiToken = {
+      expiresAt: null,
+      lastUsedAt: null,
+      createdAt: new Date(),
+      ...withoutUndefined(tokenData),
+    };
+    this.apiTokens.set(token.id, token);
+    this.changed();
+    return token;
+  }
+
+  async getUserApiTokens(userId: string): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter((token) => token.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async touchApiToken(id: string, usedAt: Date): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (!token) return;
+    this.apiTokens.set(id, { ...token, lastUsedAt: usedAt });
+    // Not worth a write of its own; it is persisted with the next change
+  }
+
+  async deleteApiToken(id: string): Promise<void> {
+    this.apiTokens.delete(id);
+    this.changed();
+  }
+
+  // Project operations
+  async createProject(projectData: InsertProject): Promise<Project> {
+    if (this.projects.has(projectData.id)) {
+      throw new Error(`Project already exists: ${projectData.id}`);
+    }
+    const now = new Date();
+    const project: Project = {
+      description: null,
+      framework: null,
+      files: null,
+      previewUrl: null,
+      deploymentUrl: null,
+      isPublic: false,
+      shareSlug: null,
+      createdAt: now,
+      updatedAt: now,
+      ...withoutUndefined(projectData),
+    };
+    this.projects.set(project.id, project);
+    this.changed();
+    return project;
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async getProjectByShareSlug(shareSlug: string): Promise<Project | undefined> {
+    return Array.from(this.projects.values()).find((project) => project.shareSlug === shareSlug);
+  }
+
+  async getUserProjects(userId: string): Promise<Project[]> {
+    return Array.from(this.projects.values())
+      .filter((project) => project.userId === userId)
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0));
+  }
+
+  async updateProject(id: string, updates: Partial<InsertProject>): Promise<Project> {
+    const existing = this.projects.get(id);
+    if (!existing) {
+      throw new Error(`Project not found: ${id}`);
+    }
+    const project: Project = { ...existing, ...withoutUndefined(updates), updatedAt: new Date() };
+    if (
+      project.shareSlug &&
+      Array.from(this.projects.values()).some((other) => other.id !== id && other.shareSlug === project.shareSlug)
+    ) {
+      throw new Error(`Share slug already in use: ${project.shareSlug}`);
+    }
+    this.projects.set(id, project);
+    this.changed();
+    return project;
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    this.projects.delete(id);
+    for (const file of Array.from(this.projectFiles.values())) {
+      if (file.projectId === id) this.projectFiles.delete(file.id);
+    }
+    for (const version of Array.from(this.projectVersions.values())) {
+      if (version.projectId === id) this.projectVersions.delete(version.id);
+    }
+    this.changed();
+  }
+
+  // Project file operations
+  async createProjectFile(fileData: InsertProjectFile): Promise<ProjectFile> {
+    const file = this.buildProjectFile(fileData);
+    this.projectFiles.set(file.id, file);
+    this.changed();
+    return file;
+  }
+
+  async getProjectFiles(projectId: string): Promise<ProjectFile[]> {
+    return Array.from(this.projectFiles.values())
+      .filter((file) => file.projectId === projectId)
+      .sort((a, b) => a.filePath.localeCompare(b.filePath));
+  }
+
+  async getProjectFile(projectId: string, filePath: string): Promise<ProjectFile | undefined> {
+    return Array.from(this.projectFiles.values()).find(
+      (file) => file.projectId === projectId && file.filePath === filePath,
+    );
+  }
+
+  async replaceProjectFiles(projectId: string, files: InsertProjectFile[]): Promise<ProjectFile[]> {
+    const previous = await this.getProjectFiles(projectId);
+    previous.forEach((file) => this.projectFiles.delete(file.id));
+    try {
+      const created = files.map((fileData) => {
+        const file = this.buildProjectFile(fileData);
+        this.projectFiles.set(file.id, file);
+        return file;
+      });
+      this.changed();
+      return created;
+    } catch (error) {
+      // Roll back like the database transaction would
+      for (const file of Array.from(this.projectFiles.values())) {
+        if (file.projectId === projectId) this.projectFiles.delete(file.id);
+      }
+      previous.forEach((file) => this.projectFiles.set(file.id, file));
+      throw error;
+    }
+  }
+
+  async updateProjectFile(id: string, updates: Partial<InsertProjectFile>): Promise<ProjectFile> {
+    const existing = this.projectFiles.get(id);
+    if (!existing) {
+      throw new Error(`Project file not found: ${id}`);
+    }
+    const file: ProjectFile = { ...existing, ...withoutUndefined(updates), updatedAt: new Date() };
+    this.assertUniquePath(file);
+    this.projectFiles.set(id, file);
+    this.changed();
+    return file;
+  }
+
+  async deleteProjectFile(id: string): Promise<void> {
+    this.projectFiles.delete(id);
+    this.changed();
+  }
+
+  // Project version operations
+  async createProjectVersion(versionData: Omit<InsertProjectVersion, "version">): Promise<ProjectVersion> {
+    if (this.projectVersions.has(versionData.id)) {
+      throw new Error(`Project version already exists: ${versionData.id}`);
+    }
+    if (!this.projects.has(versionData.projectId)) {
+      throw new Error(`Project not found: ${versionData.projectId}`);
+    }
+    const [latest] = await this.getProjectVersions(versionData.projectId);
+    const version: ProjectVersion = {
+      label: null,
+      createdAt: new Date(),
+      ...withoutUndefined(versionData),
+      version: (latest?.version ?? 0) + 1,
+    };
+    this.projectVersions.set(version.id, version);
+    this.changed();
+    return version;
+  }
+
+  async getProjectVersions(projectId: string): Promise<ProjectVersion[]> {
+    return Array.from(this.projectVersions.values())
+      .filter((version) => version.projectId === projectId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getProjectVersion(id: string): Promise<ProjectVersion | undefined> {
+    return this.projectVersions.get(id);
+  }
+
+  // Called after every write; FileStorage persists here
+  protected changed(): void {}
+
+  private buildProjectFile(fileData: InsertProjectFile): ProjectFile {
+    if (this.projectFiles.has(fileData.id)) {
+      throw new Error(`Project file already exists: ${fileData.id}`);
+    }
+    if (!this.projects.has(fileData.projectId)) {
+      throw new Error(`Project not found: ${fileData.projectId}`);
+    }
+    const now = new Date();
+    const file: ProjectFile = {
+      size: null,
+      createdAt: now,
+      updatedAt: now,
+      ...withoutUndefined(fileData),
+    };
+    this.assertUniquePath(file);
+    return file;
+  }
+
+  private assertUniquePath(file: ProjectFile): void {
+    for (const other of Array.from(this.projectFiles.values())) {
+      if (other.id !== file.id && other.projectId === file.projectId && other.filePath === file.filePath) {
+        throw new Error(`File already exists: ${file.filePath}`);
+      }
+    }
+  }
+}
+
+interface StorageSnapshot {
+  users: User[];
+  credentials: { userId: string; passwordHash: string }[];
+  passwordResetTokens: PasswordResetToken[];
+  apiTokens: ApiToken[];
+  projects: Project[];
+  projectFiles: ProjectFile[];
+  projectVersions: ProjectVersion[];
+}
+
+// Changes within this window go out in one write
+const FILE_WRITE_DELAY_MS = 250;
+
+// MemStorage persisted to a JSON file, for keeping projects across restarts without a database.
+// Writes happen in the background shortly after a change rather than on the request path.
+export class FileStorage extends MemStorage {
+  private writeTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> | null = null;
+  private dirty = false;
+
+  constructor(private filePath: string) {
+    super();
+    this.load();
+
+    // Changes still waiting for the timer are written before the process ends
+    process.once("exit", () => this.flush());
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+      process.once(signal, () => {
+        this.flush();
+        process.kill(process.pid, signal);
+      });
+    }
+  }
+
+  protected changed(): void {
+    this.dirty = true;
+    this.writeTimer ??= setTimeout(() => {
+      this.writeTimer = null;
+      this.write();
+    }, FILE_WRITE_DELAY_MS);
+  }
+
+  // Writes until nothing is left unsaved; changes made mid-write go out in the next round
+  private write(): void {
+    if (this.writing) return;
+    this.writing = (async () => {
+      while (this.dirty) {
+        this.dirty = false;
+        const json = this.serialize();
+        // Write then rename so a crash mid-write never leaves a truncated file
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(tempPath, json);
+        await fs.promises.rename(tempPath, this.filePath);
+      }
+    })()
+      .catch((error) => {
+        // Retried with the next change
+        this.dirty = true;
+        console.error("Error writing storage file:", error);
+      })
+      .finally(() => {
+        this.writing = null;
+      });
+  }
+
+  // Synchronous, for when the process is about to end
+  flush(): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    if (!this.dirty && !this.writing) return;
+    this.dirty = false;
+    const tempPath = `${this.filePath}.flush.tmp`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, this.serialize());
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private serialize(): string {
+    const snapshot: StorageSnapshot = {
+      users: Array.from(this.users.values()),
+      credentials: Array.from(this.credentials.entries()).map(([userId, passwordHash]) => ({ userId, passwordHash })),
+      passwordResetTokens: Array.from(this.passwordResetTokens.values()),
+      apiTokens: Array.from(this.apiTokens.values()),
+      projects: Array.from(this.projects.values()),
+      projectFiles: Array.from(this.projectFiles.values()),
+      projectVersions: Array.from(this.projectVersions.values()),
+    };
+    return JSON.stringify(snapshot, null, 2);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const snapshot: Partial<StorageSnapshot> = JSON.parse(fs.readFileSync(this.filePath, "utf8"), reviveDates);
+    snapshot.users?.forEach((user) => this.users.set(user.id, user));
+    snapshot.credentials?.forEach(({ userId, passwordHash }) => this.credentials.set(userId, passwordHash));
+    snapshot.passwordResetTokens?.forEach((token) => this.passwordResetTokens.set(token.tokenHash, token));
+    snapshot.apiTokens?.forEach((token) => this.apiTokens.set(token.id, token));
+    snapshot.projects?.forEach((project) => this.projects.set(project.id, project));
+    snapshot.projectFiles?.forEach((file) => this.projectFiles.set(file.id, file));
+    snapshot.projectVersions?.forEach((version) => this.projectVersions.set(version.id, version));
+  }
+}
+
+// Drizzle leaves optional columns undefined; spreading them would clobber the defaults
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+// Timestamp columns are all named *At
+function reviveDates(key: string, value: unknown) {
+  return key.endsWith("At") && typeof value === "string" ? new Date(value) : value;
+}
+
+export type StorageKind = "database" | "memory" | "file";
+
+// STORAGE picks the backend explicitly; otherwise Postgres is used when
+// DATABASE_URL is set and everything is kept in memory when it is not
+function createStorage(): IStorage {
+  const kind = (process.env.STORAGE || (db ? "database" : "memory")) as StorageKind;
+
+  switch (kind) {
+    case "database":
+      if (!db) {
+        throw new Error("STORAGE=database requires DATABASE_URL. Did you forget to provision a database?");
+      }
+      console.log("🗄️ Using Postgres storage");
+      return new DatabaseStorage(db);
+    case "file": {
+      const filePath = path.resolve(process.env.STORAGE_FILE || ".data/storage.json");
+      console.log(`🗄️ Using file storage at ${filePath}`);
+      return new FileStorage(filePath);
+    }
+    case "memory":
+      console.log("🗄️ Using in-memory storage; data is lost on restart");
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE "${kind}", expected database, memory or file`);
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage = createStorage();
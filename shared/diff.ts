@@ -0,0 +1,103 @@
+// Line-based diff used to preview AI edits and compare project versions
+
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  text: string;
+}
+
+// Beyond this many cells the LCS table gets too large for the browser;
+// such files are shown as a full replacement instead
+const MAX_LCS_CELLS = 4_000_000;
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === "" ? [] : before.split("\n");
+  const b = after === "" ? [] : after.split("\n");
+
+  // Trim the common prefix and suffix so the LCS only covers the changed region
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix: DiffLine[] = a.slice(0, start).map((text) => ({ type: "context", text }));
+  const suffix: DiffLine[] = a.slice(endA).map((text) => ({ type: "context", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...midA.map((text): DiffLine => ({ type: "remove", text })),
+      ...midB.map((text): DiffLine => ({ type: "add", text })),
+      ...suffix,
+    ];
+  }
+
+  // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+  const lengths: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i][j] = midA[i] === midB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: "context", text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ type: "remove", text: midA[i++] });
+    } else {
+      middle.push({ type: "add", text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: "remove", text: midA[i++] });
+  while (j < midB.length) middle.push({ type: "add", text: midB[j++] });
+
+  return [...prefix, ...middle, ...suffix];
+}
+
+export function countChanges(lines: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: lines.filter((line) => line.type === "add").length,
+    removed: lines.filter((line) => line.type === "remove").length,
+  };
+}
+
+export interface FileSetChange {
+  path: string;
+  status: "added" | "removed" | "modified";
+  before: string;
+  after: string;
+}
+
+// File-level comparison of two snapshots, keyed by path; unchanged files are left out
+export function diffFileSets(
+  before: Record<string, { content: string }>,
+  after: Record<string, { content: string }>,
+): FileSetChange[] {
+  const paths = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  const changes: FileSetChange[] = [];
+
+  for (const path of paths) {
+    const from = before[path];
+    const to = after[path];
+    if (!from) {
+      changes.push({ path, status: "added", before: "", after: to.content });
+    } else if (!to) {
+      changes.push({ path, status: "removed", before: from.content, after: "" });
+    } else if (from.content !== to.content) {
+      changes.push({ path, status: "modified", before: from.content, after: to.content });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,143 @@
+import { z } from "zod";
+
+// Structured output of the generation routes. Models tag each fenced block
+// with its destination, e.g. ```tsx path=src/App.tsx action=update, and the
+// server turns the response into a manifest of file operations. Targeted
+// changes to existing files use action=edit with search/replace hunks.
+
+export const fileActionSchema = z.enum(["create", "update", "delete", "edit"]);
+
+export const generatedFilePathSchema = z
+  .string()
+  .min(1)
+  .refine(
+    (path) => !path.startsWith("/") && !path.includes("\\") && !path.split("/").some((part) => part === ".." || part === ""),
+    { message: "Path must be relative and stay inside the project" },
+  );
+
+export const fileEditSchema = z.object({
+  search: z.string().min(1),
+  replace: z.string(),
+});
+
+export const generatedFileSchema = z
+  .object({
+    path: generatedFilePathSchema,
+    language: z.string().min(1),
+    content: z.string(),
+    action: fileActionSchema,
+    edits: z.array(fileEditSchema).optional(),
+  })
+  .refine((file) => file.action !== "edit" || (file.edits?.length ?? 0) > 0, {
+    message: "Edit actions need at least one search/replace hunk",
+  });
+
+export const generationManifestSchema = z.object({
+  summary: z.string(),
+  files: z.array(generatedFileSchema),
+});
+
+export type FileAction = z.infer<typeof fileActionSchema>;
+export type FileEdit = z.infer<typeof fileEditSchema>;
+export type GeneratedFile = z.infer<typeof generatedFileSchema>;
+export type GenerationManifest = z.infer<typeof generationManifestSchema>;
+
+// Uncaught error from the project's preview, sent when asking the model to fix it
+export const runtimeErrorSchema = z.object({
+  message: z.string().min(1).max(10_000),
+  stack: z.string().max(10_000).optional(),
+  // Project file and line the error was mapped to, when known
+  file: z.string().optional(),
+  line: z.number().int().positive().optional(),
+});
+
+// Project context the chat sends so follow-up prompts can edit what exists
+export const generationRequestSchema = z.object({
+  prompt: z.string({ required_error: "Prompt is required" }).min(1, "Prompt is required"),
+  provider: z.string().optional(),
+  files: z.record(z.object({ content: z.string(), type: z.string().optional() })).optional(),
+  activeFile: z.string().nullish(),
+  history: z
+    .array(z.object({ role: z.enum(["user", "assistant"]), content: z.string() }))
+    .optional(),
+  runtimeError: runtimeErrorSchema.optional(),
+});
+
+export type GenerationRequest = z.infer<typeof generationRequestSchema>;
+export type RuntimeError = z.infer<typeof runtimeErrorSchema>;
+
+const SEARCH_MARKER = /^<{5,} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,}\s*$/;
+const REPLACE_MARKER = /^>{5,} REPLACE\s*$/;
+
+// Whether an action=edit block is written as hunks at all, usable or not
+export const hasEditHunks = (body: string) => body.split("\n").some((line) => SEARCH_MARKER.test(line));
+
+// Parses the body of an action=edit block:
+//   <<<<<<< SEARCH / original lines / ======= / new lines / >>>>>>> REPLACE
+// Hunks with a blank SEARCH section have nowhere to go and are dropped.
+export function parseEditHunks(body: string): FileEdit[] {
+  const edits: FileEdit[] = [];
+  let search: string[] | null = null;
+  let replace: string[] | null = null;
+
+  for (const line of body.split("\n")) {
+    if (SEARCH_MARKER.test(line)) {
+      search = [];
+      replace = null;
+    } else if (search && !replace && DIVIDER_MARKER.test(line)) {
+      replace = [];
+    } else if (search && replace && REPLACE_MARKER.test(line)) {
+      const searchText = search.join("\n");
+      if (searchText.trim()) {
+        edits.push({ search: searchText, replace: replace.join("\n") });
+      }
+      search = null;
+      replace = null;
+    } else if (replace) {
+      replace.push(line);
+    } else if (search) {
+      search.push(line);
+    }
+  }
+
+  return edits;
+}
+
+// Applies hunks in order; a hunk whose search text is missing is reported, not guessed at
+export function applyFileEdits(content: string, edits: FileEdit[]): { content: string; failed: FileEdit[] } {
+  const failed: FileEdit[] = [];
+  let result = content.replace(/\r\n/g, "\n");
+
+  for (const edit of edits) {
+    const index = result.indexOf(edit.search);
+    if (index === -1) {
+      failed.push(edit);
+      continue;
+    }
+    result = result.slice(0, index) + edit.replace + result.slice(index + edit.search.length);
+  }
+
+  return { content: result, failed };
+}
+
+// Events emitted by the streaming generation endpoint (/api/claude-proxy/stream)
+
+export type GenerationStageId =
+  | "analysis"
+  | "architecture"
+  | "structure"
+  | "frontend"
+  | "backend"
+  | "integration"
+  | "optimization"
+  | "complete";
+
+export type GenerationEvent =
+  | { type: "stage"; stage: GenerationStageId; message: string }
+  | { type: "token"; text: string }
+  | { type: "file-start"; path: string; language: string; action: FileAction }
+  | { type: "file-delta"; path: string; text: string }
+  | ({ type: "file-end" } & GeneratedFile)
+  | { type: "done"; response: string; provider: string; manifest: GenerationManifest }
+  | { type: "error"; message: string };
@@ -0,0 +1,46 @@
+// Messages posted from a running preview to the editor window. The preview
+// page gets a bridge script that forwards console calls, uncaught errors and
+// unhandled rejections; locations are raw script URLs, which the editor maps
+// back to project files. The editor talks back to the same bridge to hot-swap
+// stylesheets.
+
+export const PREVIEW_CONSOLE_SOURCE = "preview-console";
+export const PREVIEW_HOST_SOURCE = "preview-host";
+
+export type PreviewConsoleLevel = "log" | "info" | "warn" | "error" | "debug";
+
+export interface PreviewScriptLocation {
+  url: string;
+  line: number;
+  column: number;
+}
+
+export interface PreviewConsoleMessage {
+  source: typeof PREVIEW_CONSOLE_SOURCE;
+  level: PreviewConsoleLevel;
+  // "console" for console.* calls, otherwise the kind of uncaught failure
+  kind: "console" | "error" | "unhandledrejection";
+  message: string;
+  stack?: string;
+  location?: PreviewScriptLocation;
+}
+
+// Editor -> preview: stylesheets at these absolute URLs changed; the bridge
+// reloads just those <link> tags, or the whole page if any is not linked
+export interface PreviewStylesheetsMessage {
+  source: typeof PREVIEW_HOST_SOURCE;
+  type: "stylesheets-changed";
+  urls: string[];
+}
+
+// Pulls "url:line:column" frames out of a V8 or Firefox/Safari stack trace
+export function parseStackFrames(stack: string): PreviewScriptLocation[] {
+  const frames: PreviewScriptLocation[] = [];
+  for (const line of stack.split("\n")) {
+    const match = line.match(/(https?:\/\/[^\s()]+?):(\d+):(\d+)\)?\s*$/);
+    if (match) {
+      frames.push({ url: match[1], line: Number(match[2]), column: Number(match[3]) });
+    }
+  }
+  return frames;
+}
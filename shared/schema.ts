@@ -5,9 +5,13 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   integer,
   boolean,
 } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { generatedFilePathSchema } from "./generation";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -33,6 +37,45 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Password sign-in for local accounts; users who only sign in through an
+// identity provider have no row
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id").primaryKey().notNull().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: varchar("password_hash").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Single-use password reset tokens; only a SHA-256 of each token is stored
+export const passwordResetTokens = pgTable(
+  "password_reset_tokens",
+  {
+    tokenHash: varchar("token_hash").primaryKey().notNull(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_password_reset_tokens_user").on(table.userId)],
+);
+
+// Personal API tokens for scripts; only a SHA-256 of each token is stored
+export const apiTokens = pgTable(
+  "api_tokens",
+  {
+    id: varchar("id").primaryKey().notNull(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull(),
+    tokenHash: varchar("token_hash").notNull().unique(),
+    // Shown in the settings list so a token can be recognised without revealing it
+    tokenPrefix: varchar("token_prefix").notNull(),
+    scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull(),
+    // Null for tokens that never expire
+    expiresAt: timestamp("expires_at"),
+    lastUsedAt: timestamp("last_used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_api_tokens_user").on(table.userId)],
+);
+
 // Projects table for saving AI-generated applications
 export const projects = pgTable("projects", {
   id: varchar("id").primaryKey().notNull(),
@@ -42,30 +85,166 @@ export const projects = pgTable("projects", {
   prompt: text("prompt").notNull(),
   language: varchar("language").notNull(),
   framework: varchar("framework"),
-  files: jsonb("files").notNull(),
+  // Legacy inline copy of the files, superseded by project_files and cleared
+  // by server/migrate-project-files.ts
+  files: jsonb("files"),
   previewUrl: varchar("preview_url"),
   deploymentUrl: varchar("deployment_url"),
   isPublic: boolean("is_public").default(false),
+  // Public URL key, assigned on first share and kept when sharing is turned
+  // off and on again so links stay stable
+  shareSlug: varchar("share_slug").unique(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Project files table for individual file storage
-export const projectFiles = pgTable("project_files", {
-  id: varchar("id").primaryKey().notNull(),
-  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
-  fileName: varchar("file_name").notNull(),
-  filePath: varchar("file_path").notNull(),
-  content: text("content").notNull(),
-  language: varchar("language").notNull(),
-  size: integer("size"),
-  createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
+// Project files table for individual file storage; the source of truth for project contents
+export const projectFiles = pgTable(
+  "project_files",
+  {
+    id: varchar("id").primaryKey().notNull(),
+    projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+    fileName: varchar("file_name").notNull(),
+    filePath: varchar("file_path").notNull(),
+    content: text("content").notNull(),
+    language: varchar("language").notNull(),
+    size: integer("size"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_project_files_path").on(table.projectId, table.filePath)],
+);
+
+// Snapshots of a project's file set, taken on every AI generation and manual save
+export const projectVersions = pgTable(
+  "project_versions",
+  {
+    id: varchar("id").primaryKey().notNull(),
+    projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    source: varchar("source").notNull(),
+    label: text("label"),
+    files: jsonb("files").$type<Record<string, z.infer<typeof fileContentSchema>>>().notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_project_versions_number").on(table.projectId, table.version)],
+);
+
+export const fileContentSchema = z.object({
+  content: z.string(),
+  type: z.string().optional(),
+});
+
+// File sets keyed by path; the keys end up as paths on disk and in exported archives
+export const projectFilesSchema = z.record(generatedFilePathSchema, fileContentSchema);
+
+// Request bodies for the project routes; id, owner and timestamps are set by the server
+export const insertProjectSchema = createInsertSchema(projects, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  prompt: (schema) => schema.min(1, "Prompt is required"),
+  files: projectFilesSchema.optional(),
+}).omit({
+  id: true,
+  userId: true,
+  // Sharing goes through PUT /api/projects/:id/share
+  isPublic: true,
+  shareSlug: true,
+  previewUrl: true,
+  // Set by the server, never by the client
+  deploymentUrl: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Autosaves send the updatedAt of the copy they started from, so edits made
+// elsewhere in the meantime are reported as a conflict instead of overwritten.
+// Saving files snapshots a version unless the save is flagged as an autosave.
+export const updateProjectSchema = insertProjectSchema.partial().extend({
+  baseUpdatedAt: z.string().datetime().optional(),
+  autosave: z.boolean().optional(),
+});
+
+// Request bodies for the per-file routes; a missing language is inferred from the path
+export const insertProjectFileSchema = createInsertSchema(projectFiles, {
+  filePath: generatedFilePathSchema,
+})
+  .pick({ filePath: true, content: true, language: true })
+  .partial({ language: true });
+
+export const updateProjectFileSchema = insertProjectFileSchema.partial();
+
+export const shareProjectSchema = z.object({
+  isPublic: z.boolean(),
+});
+
+export const previewFilesSchema = z.object({
+  files: projectFilesSchema,
+});
+
+export const versionSourceSchema = z.enum(["ai", "manual", "restore"]);
+
+// Sending files saves them as the project's file set before the snapshot is taken
+export const createProjectVersionSchema = z.object({
+  source: versionSourceSchema.default("manual"),
+  label: z.string().trim().max(200).optional(),
+  files: projectFilesSchema.optional(),
+});
+
+// Request bodies for the local sign-in routes
+const emailSchema = z.string().trim().toLowerCase().email("Enter a valid email address").max(254);
+const passwordSchema = z
+  .string()
+  .min(8, "Passwords need at least 8 characters")
+  .max(200, "Passwords can be at most 200 characters");
+
+export const signupSchema = z.object({
+  email: emailSchema,
+  password: passwordSchema,
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+});
+
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, "Enter your password"),
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: emailSchema,
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+});
+
+// read: list, fetch and export projects; write: create, change and delete them;
+// generate: run AI generation through /api/ask
+export const apiTokenScopeSchema = z.enum(["read", "write", "generate"]);
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(apiTokenScopeSchema).min(1, "Pick at least one scope"),
+  // Omitted for a token that never expires
+  expiresInDays: z.number().int().min(1).max(365).optional(),
 });
 
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>;
+export type CreateApiTokenInput = z.infer<typeof createApiTokenSchema>;
 export type InsertProject = typeof projects.$inferInsert;
 export type Project = typeof projects.$inferSelect;
 export type InsertProjectFile = typeof projectFiles.$inferInsert;
 export type ProjectFile = typeof projectFiles.$inferSelect;
+export type InsertProjectVersion = typeof projectVersions.$inferInsert;
+export type ProjectVersion = typeof projectVersions.$inferSelect;
+export type VersionSource = z.infer<typeof versionSourceSchema>;
+export type CreateProjectInput = z.infer<typeof insertProjectSchema>;
+export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
+export type CreateProjectFileInput = z.infer<typeof insertProjectFileSchema>;
+export type UpdateProjectFileInput = z.infer<typeof updateProjectFileSchema>;
@@ -378,7 +378,6 @@ function App() {
 
 export default App`;
       }
-    }
     } else if (fileName.includes('Layout.tsx')) {
       content = `import React from 'react'
 import Header from './Header'